@@ -1,26 +1,240 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomUUID } from 'node:crypto';
+import { createWriteStream, WriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { appendFile, mkdir, readdir, readFile, stat, unlink } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join, resolve, sep } from 'node:path';
+
+// Table allow/deny lists - entries are "table", "schema.table" or "schema.*"
+const tableRulesSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional()
+});
+
+// Permission policy - set server-wide and optionally overridden per project
+const policySchema = z.object({
+  readOnly: z.boolean().optional().describe("Disable mutate, storage writes and auth changes"),
+  read: tableRulesSchema.optional().describe("Tables that can be read"),
+  write: tableRulesSchema.optional().describe("Tables that can be written")
+});
+
+// Result formats - pretty JSON, single-line JSON, or rows as a CSV or markdown table
+const outputFormatSchema = z.enum(['json', 'compact', 'csv', 'markdown']);
 
 // Configuration schema - Personal Access Token for management API
-export const configSchema = z.object({
-  accessToken: z.string().describe("Supabase Personal Access Token (starts with sbp_) - get from https://supabase.com/dashboard/account/tokens"),
+export const configSchema = policySchema.extend({
+  accessToken: z.string().optional().describe("Supabase Personal Access Token (starts with sbp_) - get from https://supabase.com/dashboard/account/tokens. Not needed for profiles-only setups"),
+  profiles: z.record(z.object({
+    url: z.string().describe("API URL, e.g. http://127.0.0.1:54321"),
+    serviceRoleKey: z.string().describe("Service role key"),
+    anonKey: z.string().optional().describe("Anon key")
+  })).optional().describe("Named connections to self-hosted or local (supabase start) stacks"),
+  defaultSchema: z.string().optional().describe("Database schema used when a tool call does not pass one (default: public)"),
+  defaultProject: z.string().optional().describe("Project URL, ref or name used when a tool call does not pass one"),
+  keyCacheTtlSeconds: z.number().optional().describe("How long fetched project keys are cached (default 600)"),
+  maxAffectedRows: z.number().optional().describe("Refuse update/delete calls that would touch more rows than this unless confirmAll is passed"),
+  allowSqlWrites: z.boolean().optional().describe("Let the sql tool run statements other than SELECT/WITH/EXPLAIN/SHOW"),
+  allowedProjects: z.array(z.string()).optional().describe("Project refs the server may access (default: all)"),
+  projectPolicies: z.record(policySchema).optional().describe("Per-project policy overrides keyed by project ref"),
+  maxResponseChars: z.number().optional().describe("Response budget per tool call in characters (default 40000) - rows past it are dropped and reported"),
+  maxCellChars: z.number().optional().describe("Longer text/JSON cells are truncated (default 1000)"),
+  outputFormat: outputFormatSchema.optional().describe("Default result format: json (default), compact, csv or markdown"),
+  logLevel: z.enum(['debug', 'info', 'warn', 'error', 'silent']).optional().describe("Minimum level written to the log (default info). debug also logs row data"),
+  logFile: z.string().optional().describe("Append logs to this file instead of stderr"),
+  migrationsDir: z.string().optional().describe("Local migration files compared by the migrations tool (default supabase/migrations)"),
+  validateColumns: z.boolean().optional().describe("Check column names in select/mutate against the generated types before sending (default false)"),
+  dataDir: z.string().optional().describe("Directory the bulk tool may read and write local files in (local files are disabled when unset)"),
+  journal: z.boolean().optional().describe("Record mutations so they can be listed and reverted with the history tool (default true)"),
+  journalFile: z.string().optional().describe("Mutation journal path (default ~/.supabase-mcp-lite/journal.jsonl)"),
 });
 
-// Cache for project keys to avoid repeated API calls
-const projectKeyCache: { [projectId: string]: { serviceRoleKey: string, anonKey: string } } = {};
+type Config = z.infer<typeof configSchema>;
+
+type LogLevel = NonNullable<Config['logLevel']>;
+
+const LOG_LEVELS: { [level in LogLevel]: number } = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Values under these keys are always masked
+const SECRET_KEY_PATTERN = /key|token|password|secret|authorization|cookie|jwt/i;
+
+// Values under these keys hold table rows, filters or user data - masked unless debug.
+// Error details quote offending values, e.g. "Key (email)=(a@b.co) already exists"
+const ROW_DATA_KEYS = new Set(['data', 'rows', 'where', 'args', 'query', 'email', 'userMetadata', 'appMetadata', 'details', 'fullError']);
+
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const ACCESS_TOKEN_PATTERN = /sbp_[\w]+/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+// Level and destination for one server (session). Logs never go to stdout -
+// on the stdio transport it carries the protocol
+type LoggerSettings = { level: LogLevel, stream?: WriteStream };
+
+// Used outside tool calls; tool calls log with their own server's settings
+let logState: LoggerSettings = { level: 'info' };
+
+// Open log files, shared by every server appending to the same path
+const logStreams: { [file: string]: WriteStream } = {};
+
+// Request id, start time and logger settings for the tool call being handled
+const requestContext = new AsyncLocalStorage<{ requestId: string, tool: string, startedAt: number, logger: LoggerSettings }>();
+
+function openLogStream(file: string): WriteStream {
+  if (!logStreams[file]) {
+    const stream = createWriteStream(file, { flags: 'a' });
+    // A bad path must not take the server down - drop the stream and fall back to stderr
+    stream.on('error', error => {
+      delete logStreams[file];
+      process.stderr.write(JSON.stringify({ time: new Date().toISOString(), level: 'error', msg: `❌ [Log] Cannot write ${file} - logging to stderr`, data: { message: error.message } }) + '\n');
+    });
+    logStreams[file] = stream;
+  }
+  return logStreams[file];
+}
+
+function configureLogger(config: Config): LoggerSettings {
+  logState = {
+    level: config?.logLevel || 'info',
+    stream: config?.logFile ? openLogStream(config.logFile) : undefined
+  };
+  return logState;
+}
+
+function redactString(value: string, debug: boolean): string {
+  const masked = value.replace(JWT_PATTERN, '[redacted]').replace(ACCESS_TOKEN_PATTERN, '[redacted]');
+  return debug ? masked : masked.replace(EMAIL_PATTERN, '[redacted email]');
+}
+
+// Copy a log argument with secrets (and row data outside debug) masked
+function redact(value: any, debug: boolean, depth = 0): any {
+  if (typeof value === 'string') {
+    return redactString(value, debug);
+  }
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, code: (value as any).code, stack: debug ? value.stack : undefined }, debug, depth);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth > 5) {
+    return '[nested]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, debug, depth + 1));
+  }
+  const result: { [key: string]: any } = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (SECRET_KEY_PATTERN.test(key) && typeof item === 'string') {
+      result[key] = '[redacted]';
+    } else if (!debug && ROW_DATA_KEYS.has(key) && item !== undefined && item !== 'none') {
+      result[key] = Array.isArray(item) ? `[redacted: ${item.length} item(s)]` : '[redacted]';
+    } else {
+      result[key] = redact(item, debug, depth + 1);
+    }
+  }
+  return result;
+}
+
+function writeLog(level: Exclude<LogLevel, 'silent'>, message: string, args: any[], fields: { [key: string]: any } = {}) {
+  const context = requestContext.getStore();
+  const settings = context?.logger || logState;
+  if (LOG_LEVELS[level] < LOG_LEVELS[settings.level]) {
+    return;
+  }
+  const debug = settings.level === 'debug';
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    ...(context ? { requestId: context.requestId, tool: context.tool, elapsedMs: Date.now() - context.startedAt } : {}),
+    msg: redactString(message, debug),
+    ...fields,
+    ...(args.length > 0 ? { data: redact(args.length === 1 ? args[0] : args, debug) } : {})
+  };
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ ...entry, data: '[unserializable]' });
+  }
+  (settings.stream?.writable ? settings.stream : process.stderr).write(line + '\n');
+}
+
+// Leveled JSON-lines logger; call like console.log
+const log = {
+  debug: (message: string, ...args: any[]) => writeLog('debug', message, args),
+  info: (message: string, ...args: any[]) => writeLog('info', message, args),
+  warn: (message: string, ...args: any[]) => writeLog('warn', message, args),
+  error: (message: string, ...args: any[]) => writeLog('error', message, args)
+};
+
+// Wrapper that runs a tool handler with its own request id, so every log line it writes can be
+// correlated, and with the logger settings of the server that registered it
+function createRequestLog(logger: LoggerSettings) {
+  return <A extends any[], R>(tool: string, handler: (...args: A) => Promise<R>): (...args: A) => Promise<R> => (...args: A) => {
+    const context = { requestId: randomUUID().slice(0, 8), tool, startedAt: Date.now(), logger };
+    return requestContext.run(context, async () => {
+      try {
+        const result = await handler(...args);
+        writeLog('info', `⏱️ [${tool}] Finished`, [], { durationMs: Date.now() - context.startedAt, isError: !!(result as any)?.isError });
+        return result;
+      } catch (error) {
+        writeLog('error', `⏱️ [${tool}] Failed`, [], { durationMs: Date.now() - context.startedAt });
+        throw error;
+      }
+    });
+  };
+}
+
+type ProjectKeys = { serviceRoleKey: string, anonKey: string };
+
+// How long fetched keys are trusted before asking the Management API again
+const KEY_TTL_MS = 10 * 60 * 1000;
+
+// Cache for project keys to avoid repeated API calls, keyed by access token and project -
+// sessions share the server process, and a token only gets keys it fetched itself
+const projectKeyCache: { [keyCacheKey: string]: { keys: ProjectKeys, fetchedAt: number } } = {};
+
+// In-flight key fetches, so concurrent first requests for a project share one API call
+const pendingKeyFetches: { [keyCacheKey: string]: Promise<ProjectKeys> } = {};
+
+// Clients reused across tool calls, keyed by credentials, project URL and schema
+const clientPool: { [poolKey: string]: { client: SupabaseClient<any, any, any>, projectId: string, serviceRoleKey: string } } = {};
+
+// Short one-way id for a secret, so caches can be keyed per credential without holding it in keys
+function secretId(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+function keyCacheKey(projectId: string, accessToken: string): string {
+  return `${secretId(accessToken)}|${projectId}`;
+}
 
-async function getProjectKeys(projectId: string, accessToken: string) {
+async function getProjectKeys(projectId: string, accessToken: string, ttlMs = KEY_TTL_MS): Promise<ProjectKeys> {
   // Check cache first
-  if (projectKeyCache[projectId]) {
-    console.log('📦 [Cache] Using cached keys for project:', projectId);
-    return projectKeyCache[projectId];
+  const cacheKey = keyCacheKey(projectId, accessToken);
+  const cached = projectKeyCache[cacheKey];
+  if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+    log.info('📦 [Cache] Using cached keys for project:', projectId);
+    return cached.keys;
+  }
+
+  if (!pendingKeyFetches[cacheKey]) {
+    pendingKeyFetches[cacheKey] = fetchProjectKeys(projectId, accessToken)
+      .finally(() => delete pendingKeyFetches[cacheKey]);
+  } else {
+    log.info('⏳ [Cache] Waiting for in-flight key fetch for project:', projectId);
   }
+  return pendingKeyFetches[cacheKey];
+}
 
-  console.log('🔑 [API] Fetching keys for project:', projectId);
+async function fetchProjectKeys(projectId: string, accessToken: string): Promise<ProjectKeys> {
+  log.info('🔑 [API] Fetching keys for project:', projectId);
   
   try {
-    const response = await fetch(`https://api.supabase.com/v1/projects/${projectId}/api-keys`, {
+    const response = await fetchWithRetry(`https://api.supabase.com/v1/projects/${projectId}/api-keys`, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json'
@@ -28,10 +242,10 @@ async function getProjectKeys(projectId: string, accessToken: string) {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch project keys: ${response.status} ${response.statusText}`);
+      throw Object.assign(new Error(`Failed to fetch project keys: ${response.status} ${response.statusText}`), { status: response.status });
     }
 
-    const keys = await response.json();
+    const keys = await response.json() as any[];
     
     // Find the service role key
     const serviceRoleKey = keys.find((k: any) => k.name === 'service_role')?.api_key;
@@ -42,634 +256,4429 @@ async function getProjectKeys(projectId: string, accessToken: string) {
     }
 
     // Cache the keys
-    projectKeyCache[projectId] = { serviceRoleKey, anonKey };
-    console.log('✅ [API] Keys fetched and cached successfully');
+    const projectKeys = { serviceRoleKey, anonKey };
+    projectKeyCache[keyCacheKey(projectId, accessToken)] = { keys: projectKeys, fetchedAt: Date.now() };
+    log.info('✅ [API] Keys fetched and cached successfully');
     
-    return projectKeyCache[projectId];
+    return projectKeys;
   } catch (error) {
-    console.error('❌ [API] Failed to fetch project keys:', error);
+    log.error('❌ [API] Failed to fetch project keys:', error);
     throw error;
   }
 }
 
-// Extract project ID from URL
-function extractProjectId(projectUrl: string): string {
-  const match = projectUrl.match(/https:\/\/([^.]+)\.supabase\.co/);
-  if (!match) {
-    throw new Error('Invalid Supabase project URL');
+// Drop a token's cached keys and every pooled client for a project
+function invalidateProject(projectId: string, accessToken?: string) {
+  log.info('🧹 [Cache] Invalidating keys and clients for project:', projectId);
+  if (accessToken) {
+    delete projectKeyCache[keyCacheKey(projectId, accessToken)];
+  }
+  for (const [poolKey, entry] of Object.entries(clientPool)) {
+    if (entry.projectId === projectId) {
+      delete clientPool[poolKey];
+    }
   }
-  return match[1];
 }
 
-export default function createServer({ config }: { config: z.infer<typeof configSchema> }) {
-  console.log('🚀 [Server] Initializing Supabase MCP Lite v1.0.0');
+// Retries for transient failures, with exponential backoff
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 5000;
+
+// Methods that are safe to replay when a request may already have reached the database
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// fetch that retries rate limits (429) and unavailable upstreams (503) for every method, and
+// gateway errors and dropped connections only for idempotent methods
+async function fetchWithRetry(input: Parameters<typeof fetch>[0], init?: Parameters<typeof fetch>[1]): Promise<Response> {
+  const method = (init?.method || 'GET').toUpperCase();
+  const url = typeof input === 'string' || input instanceof URL ? String(input) : input.url;
+  const idempotent = IDEMPOTENT_METHODS.includes(method);
   
-  const server = new McpServer({
-    name: "supabase-lite",
-    version: "1.0.0",
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined;
+    try {
+      response = await fetch(input, init);
+    } catch (error) {
+      if (!idempotent || attempt >= RETRY_ATTEMPTS || init?.signal?.aborted) {
+        throw error;
+      }
+    }
+    
+    if (response) {
+      const transient = response.status === 429 || response.status === 503 || (idempotent && (response.status === 502 || response.status === 504));
+      if (!transient || attempt >= RETRY_ATTEMPTS) {
+        return response;
+      }
+      await response.body?.cancel().catch(() => undefined);
+    }
+    
+    const retryAfter = Number(response?.headers.get('retry-after'));
+    const delay = Math.min(RETRY_MAX_DELAY_MS, retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random()));
+    log.warn(`🔁 [Retry] ${method} ${new URL(url).pathname} ${response ? `got ${response.status}` : 'failed to connect'} - retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${RETRY_ATTEMPTS})`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+// fetch for pooled clients: a 401/403 may mean the key was rotated, so invalidate,
+// re-fetch the keys once and replay the request with the new key if it changed
+function createKeyRetryFetch(projectId: string, accessToken: string, usedKey: string, ttlMs: number): typeof fetch {
+  return async (input, init) => {
+    const response = await fetchWithRetry(input, init);
+    if (response.status !== 401 && response.status !== 403) {
+      return response;
+    }
+    
+    log.warn(`⚠️ [Cache] Got ${response.status} for project ${projectId} - re-fetching keys`);
+    invalidateProject(projectId, accessToken);
+    const { serviceRoleKey } = await getProjectKeys(projectId, accessToken, ttlMs);
+    if (serviceRoleKey === usedKey) {
+      return response;
+    }
+    
+    log.info('🔁 [Cache] Key was rotated - retrying request once');
+    const headers = new Headers(init?.headers);
+    if (headers.get('apikey') === usedKey) {
+      headers.set('apikey', serviceRoleKey);
+    }
+    if (headers.get('Authorization') === `Bearer ${usedKey}`) {
+      headers.set('Authorization', `Bearer ${serviceRoleKey}`);
+    }
+    return fetchWithRetry(input, { ...init, headers });
+  };
+}
+
+// Personal access token for Management API calls - unavailable for self-hosted profiles
+function managementToken(config: Config, projectId?: string): string {
+  if (projectId && config.profiles?.[projectId]) {
+    throw new Error(`Not available for profile "${projectId}" - self-hosted and local stacks have no Management API`);
+  }
+  if (!config.accessToken) {
+    throw new Error('This needs a Supabase Personal Access Token - set accessToken in the server config');
+  }
+  return config.accessToken;
+}
+
+// How long fetched keys stay cached, from keyCacheTtlSeconds
+function keyTtlMs(config: Config): number {
+  return config.keyCacheTtlSeconds !== undefined ? config.keyCacheTtlSeconds * 1000 : KEY_TTL_MS;
+}
+
+// Keys for a project: straight from the profile, or fetched through the Management API
+async function getKeysFor(projectId: string, config: Config): Promise<ProjectKeys> {
+  const profile = config.profiles?.[projectId];
+  if (profile) {
+    return { serviceRoleKey: profile.serviceRoleKey, anonKey: profile.anonKey || '' };
+  }
+  return getProjectKeys(projectId, managementToken(config), keyTtlMs(config));
+}
+
+// Id of the credentials a project is reached with: the profile's key or the access token
+function credentialId(config: Config, projectId: string): string {
+  const profile = config.profiles?.[projectId];
+  return secretId(profile ? profile.serviceRoleKey : managementToken(config));
+}
+
+// Shared per-project client with the service role key
+async function getProjectClient(projectUrl: string, projectId: string, config: Config, schema = 'public') {
+  const { serviceRoleKey } = await getKeysFor(projectId, config);
+  const profile = config.profiles?.[projectId];
+  
+  // Pooled per credentials: the retry fetch below re-fetches keys with this session's token
+  const poolKey = `${credentialId(config, projectId)}|${projectUrl}|${schema}`;
+  const pooled = clientPool[poolKey];
+  if (pooled && pooled.serviceRoleKey === serviceRoleKey) {
+    log.info('♻️ [Cache] Reusing client for:', projectUrl, `(schema: ${schema})`);
+    return pooled.client;
+  }
+  
+  log.info('🌐 [Cache] Creating Supabase client for:', projectUrl, `(schema: ${schema})`);
+  const client = createClient(projectUrl, serviceRoleKey, {
+    auth: { 
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false
+    },
+    db: {
+      schema
+    },
+    global: {
+      headers: {
+        'x-bypass-rls': 'true'  // Explicit RLS bypass with service role
+      },
+      // Profile keys are static, so only cloud projects can recover from a rotated key
+      fetch: profile ? fetchWithRetry : createKeyRetryFetch(projectId, managementToken(config), serviceRoleKey, keyTtlMs(config))
+    }
   });
+  
+  clientPool[poolKey] = { client, projectId, serviceRoleKey };
+  return client;
+}
 
-  // Check if access token is provided
-  if (!config?.accessToken) {
-    console.error('❌ [Server] CRITICAL: Supabase Personal Access Token not configured!');
-    console.warn("Please provide accessToken (starts with sbp_) from https://supabase.com/dashboard/account/tokens");
-    return server.server;
+// Who a data call runs as: the service role (bypasses RLS), the anon role, or a specific user
+const roleSchema = z.string().regex(/^(service|anon|user:.+)$/, "Use service, anon or user:<id|email>");
+
+// Signed-in user sessions for RLS testing, keyed by credentials, project and user
+const userSessionCache: { [sessionKey: string]: { accessToken: string, expiresAt: number } } = {};
+
+// Sessions are re-minted this long before they expire
+const SESSION_EXPIRY_MARGIN_MS = 60 * 1000;
+
+function createAnonClient(projectUrl: string, anonKey: string, schema: string, accessToken?: string) {
+  return createClient(projectUrl, anonKey, {
+    auth: { 
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false
+    },
+    db: {
+      schema
+    },
+    global: {
+      fetch: fetchWithRetry,
+      ...(accessToken ? { headers: { 'Authorization': `Bearer ${accessToken}` } } : {})
+    }
+  });
+}
+
+// Sign a user in without their password: generate a magic link with the admin API
+// and redeem its token, which yields a normal short-lived user session
+async function getUserAccessToken(projectUrl: string, projectId: string, config: Config, user: string, anonKey: string): Promise<string> {
+  const sessionKey = `${credentialId(config, projectId)}|${projectId}|${user.toLowerCase()}`;
+  const cached = userSessionCache[sessionKey];
+  if (cached && cached.expiresAt - SESSION_EXPIRY_MARGIN_MS > Date.now()) {
+    log.info('📦 [Cache] Using cached session for user:', user);
+    return cached.accessToken;
+  }
+  
+  const admin = (await getProjectClient(projectUrl, projectId, config)).auth.admin;
+  
+  // Look the user up first - generateLink would create a missing user
+  let email: string | undefined;
+  if (user.includes('@')) {
+    email = (await findUserByEmail(admin, user)).email;
+  } else {
+    const { data, error } = await admin.getUserById(user);
+    if (error) {
+      throw error;
+    }
+    email = data.user.email;
+  }
+  if (!email) {
+    throw new Error(`User ${user} has no email, so the server cannot sign them in`);
+  }
+  
+  log.info('🔑 [Auth] Minting session for user:', user);
+  const { data: link, error: linkError } = await admin.generateLink({ type: 'magiclink', email });
+  if (linkError) {
+    throw linkError;
+  }
+  
+  const { data: verified, error: verifyError } = await createAnonClient(projectUrl, anonKey, 'public').auth.verifyOtp({
+    type: 'email',
+    token_hash: link.properties.hashed_token
+  });
+  if (verifyError || !verified.session) {
+    throw verifyError || new Error(`Could not sign in user ${user}`);
   }
+  
+  userSessionCache[sessionKey] = {
+    accessToken: verified.session.access_token,
+    expiresAt: (verified.session.expires_at || 0) * 1000
+  };
+  return verified.session.access_token;
+}
 
-  // Validate token format
-  if (!config.accessToken.startsWith('sbp_')) {
-    console.error('❌ [Server] Invalid access token format. Must start with sbp_');
-    console.warn("Access token should start with sbp_. Get it from https://supabase.com/dashboard/account/tokens");
-    return server.server;
+// Client for a data call made as the service role, the anon role or a signed-in user
+async function getRoleClient(projectUrl: string, projectId: string, config: Config, schema = 'public', role = 'service') {
+  if (role === 'service') {
+    return getProjectClient(projectUrl, projectId, config, schema);
+  }
+  
+  const { anonKey } = await getKeysFor(projectId, config);
+  if (!anonKey) {
+    throw new Error(`No anon key available for "${projectId}" - needed to run as ${role}`);
+  }
+  
+  if (role === 'anon') {
+    log.info('🌐 [Cache] Creating anon client for:', projectUrl, `(schema: ${schema})`);
+    return createAnonClient(projectUrl, anonKey, schema);
+  }
+  
+  const user = role.slice('user:'.length);
+  const accessToken = await getUserAccessToken(projectUrl, projectId, config, user, anonKey);
+  log.info(`🌐 [Cache] Creating client as user ${user} for:`, projectUrl, `(schema: ${schema})`);
+  return createAnonClient(projectUrl, anonKey, schema, accessToken);
+}
+
+// Base URL of the Supabase Management API
+const MANAGEMENT_API_URL = 'https://api.supabase.com/v1';
+
+// How long the project list used for name/domain lookups is cached
+const PROJECT_LIST_TTL_MS = 5 * 60 * 1000;
+
+// Call the Management API with the personal access token and parse the JSON response
+async function managementApi(path: string, accessToken: string, init: { method?: string, body?: unknown } = {}): Promise<any> {
+  const response = await fetchWithRetry(`${MANAGEMENT_API_URL}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {})
+  });
+
+  if (!response.ok) {
+    const body: any = await response.json().catch(() => null);
+    throw Object.assign(new Error(`Management API ${init.method || 'GET'} ${path} failed: ${response.status} ${body?.message || response.statusText}`), { status: response.status });
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+// Project lists keyed by access token - each token (session) sees only its own projects
+const projectListCache: { [accessToken: string]: { projects: any[], fetchedAt: number } } = {};
+
+async function listProjects(accessToken: string): Promise<any[]> {
+  const cached = projectListCache[accessToken];
+  if (cached && Date.now() - cached.fetchedAt < PROJECT_LIST_TTL_MS) {
+    return cached.projects;
+  }
+  log.info('🔑 [API] Fetching project list');
+  const projects = await managementApi('/projects', accessToken);
+  projectListCache[accessToken] = { projects, fetchedAt: Date.now() };
+  return projects;
+}
+
+// Custom domains and vanity subdomains resolved to project refs, keyed by access token and hostname
+const hostnameRefCache: { [hostnameKey: string]: string } = {};
+
+// Find the project serving a custom domain or vanity subdomain
+async function findProjectByHostname(hostname: string, accessToken: string): Promise<string> {
+  const hostnameKey = `${accessToken}|${hostname}`;
+  if (hostnameRefCache[hostnameKey]) {
+    return hostnameRefCache[hostnameKey];
+  }
+  
+  log.info('🔍 [API] Looking up project for hostname:', hostname);
+  for (const project of await listProjects(accessToken)) {
+    const [custom, vanity] = await Promise.all([
+      managementApi(`/projects/${project.id}/custom-hostname`, accessToken).catch(() => null),
+      managementApi(`/projects/${project.id}/vanity-subdomain`, accessToken).catch(() => null)
+    ]);
+    if (custom?.custom_hostname === hostname || (vanity?.vanity_subdomain && `${vanity.vanity_subdomain}.supabase.co` === hostname)) {
+      hostnameRefCache[hostnameKey] = project.id;
+      return project.id;
+    }
+  }
+  throw categorizedError('not_found', `No project found for ${hostname}`);
+}
+
+// Resolve a project URL, ref or name (or the configured default) to its ref and API URL
+async function resolveProject(project: string | undefined, config: Config): Promise<{ projectId: string, apiUrl: string }> {
+  const input = (project || config.defaultProject || '').trim();
+  if (!input) {
+    throw new Error('Project required - pass a project URL, ref or name, or set defaultProject');
+  }
+  
+  // Self-hosted / local profiles, by name or by their API URL
+  const profiles = config.profiles || {};
+  if (profiles[input]) {
+    return { projectId: input, apiUrl: new URL(profiles[input].url).origin };
+  }
+  
+  if (/^https?:\/\//.test(input)) {
+    const url = new URL(input);
+    const apiUrl = url.origin;
+    const profileName = Object.keys(profiles).find(name => new URL(profiles[name].url).origin === apiUrl);
+    if (profileName) {
+      return { projectId: profileName, apiUrl };
+    }
+    const match = url.hostname.match(/^([a-z]{20})\.supabase\.co$/);
+    if (match) {
+      return { projectId: match[1], apiUrl };
+    }
+    if (['localhost', '127.0.0.1', '[::1]'].includes(url.hostname) || url.protocol === 'http:') {
+      throw new Error(`No profile configured for ${apiUrl} - add it under profiles with its service role key`);
+    }
+    return { projectId: await findProjectByHostname(url.hostname, managementToken(config)), apiUrl };
+  }
+  
+  // Project refs are 20 lowercase letters
+  if (/^[a-z]{20}$/.test(input)) {
+    return { projectId: input, apiUrl: `https://${input}.supabase.co` };
+  }
+  
+  const matches = (await listProjects(managementToken(config))).filter(p => p.name?.toLowerCase() === input.toLowerCase());
+  if (matches.length === 0) {
+    throw categorizedError('not_found', `No project named "${input}" - use the projects tool to list them`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Several projects are named "${input}" (${matches.map(p => p.id).join(', ')}) - pass the ref instead`);
+  }
+  return { projectId: matches[0].id, apiUrl: `https://${matches[0].id}.supabase.co` };
+}
+
+function matchesTableRule(rule: string, schema: string, table: string): boolean {
+  const [ruleSchema, ruleTable] = rule.includes('.') ? rule.split('.', 2) : [null, rule];
+  if (ruleSchema !== null && ruleSchema !== schema) {
+    return false;
+  }
+  return ruleTable === '*' || ruleTable === table;
+}
+
+// Check a tool call against the configured policy, returning the denial reason if any
+function checkPolicy(config: Config, projectId: string, access: { write: boolean, schema?: string, tables?: string[], rawSql?: boolean }): string | null {
+  if (config.allowedProjects && !config.allowedProjects.includes(projectId)) {
+    return `Project "${projectId}" is not in allowedProjects`;
+  }
+
+  const projectPolicy = config.projectPolicies?.[projectId];
+  if (access.write && (projectPolicy?.readOnly ?? config.readOnly)) {
+    return `Project "${projectId}" is read-only`;
+  }
+
+  const rules = access.write
+    ? projectPolicy?.write ?? config.write
+    : projectPolicy?.read ?? config.read;
+  const kind = access.write ? 'writes' : 'reads';
+  const schema = access.schema || 'public';
+
+  // Raw SQL and Postgres functions can touch any table, so they cannot be checked against table rules
+  if (access.rawSql && (projectPolicy?.read ?? config.read ?? projectPolicy?.write ?? config.write)) {
+    return `SQL and function calls are disabled for project "${projectId}" because table rules are configured`;
+  }
+
+  // "*" stands for every table in the schema: any deny rule for the schema applies, and only a wildcard allows it
+  for (const table of access.tables || []) {
+    if (rules?.deny?.some(rule => matchesTableRule(rule, schema, table === '*' ? rule.split('.').pop()! : table))) {
+      return `Table "${schema}.${table}" is denied for ${kind}`;
+    }
+    if (rules?.allow && !rules.allow.some(rule => matchesTableRule(rule, schema, table))) {
+      return `Table "${schema}.${table}" is not allowed for ${kind}`;
+    }
+  }
+
+  return null;
+}
+
+// Tool result for a call rejected by policy
+function policyDenied(tool: string, reason: string) {
+  log.warn(`🚫 [Policy] ${tool} denied: ${reason}`);
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({ error: 'denied_by_policy', tool, reason }, null, 2)
+    }]
+  };
+}
+
+// Stable error categories returned to the model
+type ErrorCategory = 'not_found' | 'permission' | 'validation' | 'conflict' | 'rate_limited' | 'upstream_unavailable';
+
+// PostgREST, Postgres (SQLSTATE) and GoTrue codes with a category of their own
+const ERROR_CODE_CATEGORIES: { [code: string]: ErrorCategory } = {
+  PGRST116: 'not_found',
+  PGRST202: 'not_found',
+  PGRST205: 'not_found',
+  '42P01': 'not_found',
+  '42883': 'not_found',
+  PGRST301: 'permission',
+  PGRST302: 'permission',
+  '42501': 'permission',
+  PGRST000: 'upstream_unavailable',
+  PGRST001: 'upstream_unavailable',
+  PGRST002: 'upstream_unavailable',
+  PGRST003: 'upstream_unavailable',
+  '57014': 'upstream_unavailable',
+  '40001': 'conflict',
+  '40P01': 'conflict',
+  user_not_found: 'not_found',
+  email_exists: 'conflict',
+  phone_exists: 'conflict',
+  user_already_exists: 'conflict',
+  over_request_rate_limit: 'rate_limited',
+  over_email_send_rate_limit: 'rate_limited',
+  over_sms_send_rate_limit: 'rate_limited',
+  not_admin: 'permission',
+  bad_jwt: 'permission'
+};
+
+// Categories for whole SQLSTATE classes
+const SQLSTATE_CLASS_CATEGORIES: { [sqlClass: string]: ErrorCategory } = {
+  '08': 'upstream_unavailable',
+  '22': 'validation',
+  '23': 'conflict',
+  '28': 'permission',
+  '42': 'validation',
+  '53': 'upstream_unavailable',
+  '57': 'upstream_unavailable'
+};
+
+// Error for failures the server detects itself
+function categorizedError(category: ErrorCategory, message: string) {
+  return Object.assign(new Error(message), { category });
+}
+
+function errorStatus(error: any): number | undefined {
+  const status = Number(error?.status ?? error?.statusCode);
+  return Number.isInteger(status) && status > 0 ? status : undefined;
+}
+
+function classifyError(error: any): ErrorCategory {
+  if (error?.category) {
+    return error.category;
+  }
+  const code = typeof error?.code === 'string' ? error.code : '';
+  if (ERROR_CODE_CATEGORIES[code]) {
+    return ERROR_CODE_CATEGORIES[code];
+  }
+  if (/^[0-9A-Z]{5}$/.test(code) && SQLSTATE_CLASS_CATEGORIES[code.slice(0, 2)]) {
+    return SQLSTATE_CLASS_CATEGORIES[code.slice(0, 2)];
+  }
+  
+  const status = errorStatus(error);
+  if (status === 401 || status === 403) {
+    return 'permission';
+  }
+  if (status === 404) {
+    return 'not_found';
+  }
+  if (status === 409 || status === 412) {
+    return 'conflict';
   }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'upstream_unavailable';
+  }
+  // Dropped connections surface as fetch TypeErrors or retryable auth fetch errors, time-outs as TimeoutError
+  if ((error?.name === 'TypeError' && /fetch failed/i.test(error?.message || '')) || ['AuthRetryableFetchError', 'TimeoutError'].includes(error?.name)) {
+    return 'upstream_unavailable';
+  }
+  return 'validation';
+}
+
+// Tool result for a failed call - keeps the upstream code, details and hint
+function toolError(tool: string, error: any, extra: Record<string, unknown> = {}) {
+  const category = classifyError(error);
+  const status = errorStatus(error);
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: category,
+        tool,
+        message: error?.message || 'Unknown error',
+        ...(error?.code ? { code: error.code } : {}),
+        ...(error?.details ? { details: error.details } : {}),
+        ...(error?.hint ? { hint: error.hint } : {}),
+        ...(status ? { status } : {}),
+        retryable: category === 'rate_limited' || category === 'upstream_unavailable',
+        ...extra
+      }, null, 2)
+    }]
+  };
+}
+
+// Default response budget, roughly 10k tokens
+const RESPONSE_MAX_CHARS = 40000;
+
+// Default length kept of a single text or JSON cell
+const CELL_MAX_CHARS = 1000;
+
+type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+type ResponseOptions = {
+  format?: OutputFormat,
+  // Payload key holding the rows - cells are trimmed and rows dropped from the end to fit the budget
+  rowsKey?: string,
+  // Fields telling the caller how to fetch the dropped rows, given the rows that were kept
+  continuation?: (kept: any[]) => Record<string, unknown>
+};
+
+function truncateCell(value: unknown, maxChars: number): { value: unknown, truncated: boolean } {
+  const text = typeof value === 'string' ? value : (value !== null && typeof value === 'object' ? JSON.stringify(value) : undefined);
+  if (text === undefined || text.length <= maxChars) {
+    return { value, truncated: false };
+  }
+  return { value: `${text.slice(0, maxChars)}… [+${text.length - maxChars} chars]`, truncated: true };
+}
+
+function tableColumns(rows: unknown[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => isPlainObject(row) ? Object.keys(row).forEach(c => columns.add(c)) : columns.add('value'));
+  return [...columns];
+}
+
+function cellText(row: unknown, column: string): string {
+  const value = isPlainObject(row) ? row[column] : row;
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvLine(values: string[]): string {
+  return values.map(text => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text).join(',');
+}
+
+function toCsv(rows: unknown[]): string {
+  const columns = tableColumns(rows);
+  return [
+    csvLine(columns),
+    ...rows.map(row => csvLine(columns.map(c => cellText(row, c))))
+  ].join('\n');
+}
+
+function toMarkdown(rows: unknown[]): string {
+  const columns = tableColumns(rows);
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  return [
+    `| ${columns.map(escape).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(c => escape(cellText(row, c))).join(' | ')} |`)
+  ].join('\n');
+}
+
+// csv/markdown render the rows as a table followed by the remaining fields as compact JSON;
+// payloads without rows fall back to compact JSON. Plain strings are returned as they are
+function renderPayload(payload: unknown, format: OutputFormat, rowsKey?: string): string[] {
+  if (typeof payload === 'string') {
+    return [payload];
+  }
+  if ((format === 'csv' || format === 'markdown') && rowsKey && isPlainObject(payload) && Array.isArray(payload[rowsKey])) {
+    const { [rowsKey]: rows, ...meta } = payload;
+    const table = format === 'csv' ? toCsv(rows as unknown[]) : toMarkdown(rows as unknown[]);
+    return Object.keys(meta).length > 0 ? [table, JSON.stringify(meta)] : [table];
+  }
+  return [JSON.stringify(payload, null, format === 'json' ? 2 : undefined)];
+}
+
+// Tool result that fits the response budget: long cells are trimmed, then rows are dropped
+// from the end, and as a last resort the text is cut
+function respond(config: Config, payload: unknown, options: ResponseOptions = {}) {
+  const format = options.format || config.outputFormat || 'json';
+  const maxChars = config.maxResponseChars ?? RESPONSE_MAX_CHARS;
+  const maxCellChars = config.maxCellChars ?? CELL_MAX_CHARS;
+  const size = (texts: string[]) => texts.reduce((total, text) => total + text.length, 0);
+  const { rowsKey } = options;
+  
+  let texts: string[];
+  if (rowsKey && isPlainObject(payload) && Array.isArray(payload[rowsKey])) {
+    const original = payload[rowsKey] as unknown[];
+    // Truncated cells per row, so only the rows that are kept get counted
+    const truncatedPerRow: number[] = [];
+    const rows = original.map(row => {
+      let truncated = 0;
+      const trim = (value: unknown) => {
+        const cell = truncateCell(value, maxCellChars);
+        truncated += cell.truncated ? 1 : 0;
+        return cell.value;
+      };
+      const trimmed = isPlainObject(row)
+        ? Object.fromEntries(Object.entries(row).map(([column, value]) => [column, trim(value)]))
+        : trim(row);
+      truncatedPerRow.push(truncated);
+      return trimmed;
+    });
+    
+    const build = (kept: number) => {
+      const truncatedCells = truncatedPerRow.slice(0, kept).reduce((total, n) => total + n, 0);
+      return {
+        ...payload,
+        [rowsKey]: rows.slice(0, kept),
+        ...(truncatedCells > 0 ? { truncatedCells } : {}),
+        ...(kept < rows.length ? { omittedRows: rows.length - kept, ...options.continuation?.(original.slice(0, kept)) } : {})
+      };
+    };
+    
+    texts = renderPayload(build(rows.length), format, rowsKey);
+    if (size(texts) > maxChars && rows.length > 0) {
+      // Largest number of rows that still fits
+      let low = 0;
+      let high = rows.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (size(renderPayload(build(mid), format, rowsKey)) <= maxChars) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      log.info(`✂️ [Budget] Keeping ${low} of ${rows.length} rows to stay within ${maxChars} chars`);
+      texts = renderPayload(build(low), format, rowsKey);
+    }
+  } else {
+    texts = renderPayload(payload, format);
+  }
+  
+  const overflow = size(texts) - maxChars;
+  if (overflow > 0) {
+    log.info(`✂️ [Budget] Cutting ${overflow} chars from the response`);
+    texts = [
+      `${texts[0].slice(0, Math.max(0, texts[0].length - overflow))}\n… [truncated ${overflow} chars - response budget is ${maxChars}]`,
+      ...texts.slice(1)
+    ];
+  }
+  
+  return { content: texts.map(text => ({ type: "text" as const, text })) };
+}
+
+// Run SQL against a project through the Management API database query endpoint
+async function runManagementQuery(projectId: string, accessToken: string, query: string, options: { readOnly?: boolean } = {}): Promise<any[]> {
+  log.info('🔑 [API] Running database query for project:', projectId, options.readOnly ? '(read-only)' : '');
+  
+  return await managementApi(`/projects/${projectId}/database/query`, accessToken, {
+    method: 'POST',
+    body: { query, ...(options.readOnly ? { read_only: true } : {}) }
+  });
+}
+
+// Content types by file extension, used when uploading and when storage reports a generic type
+const MIME_TYPES: { [extension: string]: string } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  json: 'application/json',
+  xml: 'application/xml',
+  js: 'text/javascript',
+  css: 'text/css',
+  html: 'text/html',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  webm: 'video/webm'
+};
+
+// Downloads larger than this are refused - use signedUrl instead
+const STORAGE_MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024;
+
+// Entries fetched per storage list request while walking folders
+const STORAGE_LIST_PAGE = 1000;
+
+// Files removed per storage request when deleting a folder prefix
+const STORAGE_REMOVE_BATCH = 1000;
+
+type StorageBucketApi = ReturnType<SupabaseClient['storage']['from']>;
+type StorageSort = { column: 'name' | 'created_at' | 'updated_at' | 'last_accessed_at', order?: 'asc' | 'desc' };
+
+// List a folder, or every file below it when recursive, returning one page plus whether more exist.
+// Recursive listings walk folders breadth-first and report files by their full path; with sortBy
+// the whole tree is walked and sorted, since per-folder order says nothing about the overall one.
+// search matches the start of a file name, as the storage API does for a single folder.
+async function listStorageEntries(files: StorageBucketApi, prefix: string, options: { recursive: boolean, search?: string, sortBy?: StorageSort, offset: number, limit: number }) {
+  const sortBy = options.sortBy ? { column: options.sortBy.column, order: options.sortBy.order || 'asc' } : undefined;
+  
+  if (!options.recursive) {
+    const { data, error } = await files.list(prefix, {
+      limit: options.limit + 1,
+      offset: options.offset,
+      ...(options.search ? { search: options.search } : {}),
+      ...(sortBy ? { sortBy } : {})
+    });
+    if (error) {
+      throw error;
+    }
+    return { entries: (data || []).slice(0, options.limit), more: (data || []).length > options.limit };
+  }
+  
+  const wanted = sortBy ? Infinity : options.offset + options.limit + 1;
+  const search = options.search?.toLowerCase();
+  const collected: any[] = [];
+  const folders = [prefix.replace(/\/+$/, '')];
   
-  console.log('✅ [Server] Supabase Personal Access Token configured');
-  console.log('⚠️  [Server] Will fetch service role key automatically for each project');
-  console.log('📝 [Server] Registering 4 tools: select, mutate, storage, auth');
+  while (folders.length > 0 && collected.length < wanted) {
+    const folder = folders.shift()!;
+    for (let page = 0; collected.length < wanted; page += STORAGE_LIST_PAGE) {
+      const { data, error } = await files.list(folder, {
+        limit: STORAGE_LIST_PAGE,
+        offset: page
+      });
+      if (error) {
+        throw error;
+      }
+      for (const entry of data || []) {
+        const fullPath = folder ? `${folder}/${entry.name}` : entry.name;
+        // Folders come back as entries without an id
+        if (entry.id === null) {
+          folders.push(fullPath);
+        } else if (!search || entry.name.toLowerCase().startsWith(search)) {
+          collected.push({ ...entry, name: fullPath });
+        }
+      }
+      if (!data || data.length < STORAGE_LIST_PAGE) {
+        break;
+      }
+    }
+  }
+  
+  if (sortBy) {
+    // Missing values (e.g. never accessed) sort last either way
+    const direction = sortBy.order === 'desc' ? -1 : 1;
+    collected.sort((a, b) => {
+      const left = a[sortBy.column];
+      const right = b[sortBy.column];
+      if (left === right) {
+        return 0;
+      }
+      if (left === null || left === undefined) {
+        return 1;
+      }
+      if (right === null || right === undefined) {
+        return -1;
+      }
+      return (left < right ? -1 : 1) * direction;
+    });
+  }
+  
+  return {
+    entries: collected.slice(options.offset, options.offset + options.limit),
+    more: collected.length > options.offset + options.limit
+  };
+}
+
+// Refuse an object over maxBytes from its metadata, before any of it is downloaded.
+// Storage servers without the info endpoint fall back to checking after the download
+async function assertStoredSize(files: StorageBucketApi, path: string, maxBytes: number, hint: string) {
+  const { data, error } = await files.info(path);
+  if (error) {
+    if (errorStatus(error) === 404 || classifyError(error) === 'not_found') {
+      throw error;
+    }
+    log.warn(`⚠️ [Storage] Could not read size of ${path} before downloading:`, error);
+    return;
+  }
+  if (typeof data.size === 'number' && data.size > maxBytes) {
+    throw new Error(`File is ${data.size} bytes, over the ${maxBytes} byte limit - ${hint}`);
+  }
+}
+
+type AuthAdminApi = SupabaseClient['auth']['admin'];
+
+// Users fetched per page when looking a user up by email
+const AUTH_LOOKUP_PAGE = 1000;
+
+// The admin API has no email lookup, so page through users until one matches
+async function findUserByEmail(admin: AuthAdminApi, email: string) {
+  const wanted = email.toLowerCase();
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.listUsers({ page, perPage: AUTH_LOOKUP_PAGE });
+    if (error) {
+      throw error;
+    }
+    const user = data.users.find(u => u.email?.toLowerCase() === wanted);
+    if (user) {
+      return user;
+    }
+    if (data.users.length < AUTH_LOOKUP_PAGE) {
+      throw categorizedError('not_found', `User not found: ${email}`);
+    }
+  }
+}
+
+// Full user details without the bulky identity payloads
+function describeUser(user: any) {
+  return {
+    id: user.id,
+    email: user.email,
+    phone: user.phone || undefined,
+    role: user.role,
+    created: user.created_at,
+    lastSignIn: user.last_sign_in_at,
+    emailConfirmed: user.email_confirmed_at,
+    bannedUntil: user.banned_until,
+    providers: (user.identities || []).map((i: any) => i.provider),
+    factors: (user.factors || []).map((f: any) => ({ id: f.id, type: f.factor_type, status: f.status })),
+    userMetadata: user.user_metadata,
+    appMetadata: user.app_metadata
+  };
+}
+
+function mimeTypeFromPath(path: string): string | undefined {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension];
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/')
+    || ['application/json', 'application/xml', 'application/javascript', 'image/svg+xml'].includes(mimeType.split(';')[0]);
+}
+
+// Statements the sql tool runs without allowSqlWrites
+const READ_ONLY_SQL = ['select', 'with', 'explain', 'show', 'table', 'values'];
+
+// Default statement timeout for the sql tool
+const SQL_TIMEOUT_MS = 15000;
+
+// First keyword of a statement, skipping leading comments and whitespace
+function sqlKeyword(query: string): string {
+  const stripped = query.replace(/^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)*/, '');
+  return (stripped.match(/^[a-zA-Z]+/)?.[0] || '').toLowerCase();
+}
+
+// Quote a value as a SQL string literal
+function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Rewrite PostgREST schema errors into something actionable
+function explainSchemaError(error: any, schema: string) {
+  if (error?.code === 'PGRST106') {
+    return {
+      code: error.code,
+      message: `Schema "${schema}" is not exposed through the Data API`,
+      details: error.message,
+      hint: `Add "${schema}" to Exposed schemas in the project's API settings${error.hint ? ` (${error.hint})` : ''}`
+    };
+  }
+  if (error?.code === 'PGRST205' || error?.code === '42P01') {
+    return {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      hint: error.hint || `Check the table name and that it lives in schema "${schema}"`
+    };
+  }
+  return error;
+}
+
+// Filter operators accepted in `where`, mapped to their PostgREST names
+const FILTER_OPERATORS: { [operator: string]: string } = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  like: 'like',
+  ilike: 'ilike',
+  match: 'match',
+  imatch: 'imatch',
+  is: 'is',
+  isDistinct: 'isdistinct',
+  in: 'in',
+  contains: 'cs',
+  containedBy: 'cd',
+  overlaps: 'ov',
+  rangeGt: 'sr',
+  rangeGte: 'nxl',
+  rangeLt: 'sl',
+  rangeLte: 'nxr',
+  rangeAdjacent: 'adj',
+  fts: 'fts',
+  plfts: 'plfts',
+  phfts: 'phfts',
+  wfts: 'wfts'
+};
+
+type CompiledFilter =
+  | { kind: 'filter', column: string, operator: string, value: string }
+  | { kind: 'or', expression: string };
+
+// Quote a value for PostgREST list/logic syntax when it contains reserved characters
+function quoteFilterValue(value: unknown): string {
+  const text = String(value);
+  if (typeof value === 'string' && /[,.:()"{}\\\s]/.test(text)) {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+  return text;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Serialize one operator value into its PostgREST text form
+function formatFilterValue(column: string, operator: string, value: unknown, inLogic: boolean): { operator: string, value: string } {
+  const pgOperator = FILTER_OPERATORS[operator];
+  const scalar = (v: unknown) => inLogic ? quoteFilterValue(v) : String(v);
+
+  switch (operator) {
+    case 'eq':
+    case 'neq':
+      if (value === null) {
+        return { operator: operator === 'eq' ? 'is' : 'not.is', value: 'null' };
+      }
+      if (Array.isArray(value)) {
+        throw new Error(`Invalid filter for "${column}": ${operator} does not take an array - use "in"`);
+      }
+      return { operator: pgOperator, value: isPlainObject(value) ? scalar(JSON.stringify(value)) : scalar(value) };
+
+    case 'is':
+      if (value !== null && value !== true && value !== false && value !== 'unknown') {
+        throw new Error(`Invalid filter for "${column}": is accepts null, true, false or "unknown"`);
+      }
+      return { operator: pgOperator, value: String(value) };
+
+    case 'in':
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`Invalid filter for "${column}": in requires a non-empty array`);
+      }
+      return { operator: pgOperator, value: `(${value.map(quoteFilterValue).join(',')})` };
+
+    case 'contains':
+    case 'containedBy':
+    case 'overlaps':
+      if (Array.isArray(value)) {
+        return { operator: pgOperator, value: `{${value.map(quoteFilterValue).join(',')}}` };
+      }
+      if (isPlainObject(value) && operator !== 'overlaps') {
+        return { operator: pgOperator, value: scalar(JSON.stringify(value)) };
+      }
+      if (typeof value === 'string') {
+        // Range literal such as "[1,5)"
+        return { operator: pgOperator, value: scalar(value) };
+      }
+      throw new Error(`Invalid filter for "${column}": ${operator} requires an array, object or range string`);
+
+    case 'fts':
+    case 'plfts':
+    case 'phfts':
+    case 'wfts':
+      if (typeof value === 'string') {
+        return { operator: pgOperator, value: scalar(value) };
+      }
+      if (isPlainObject(value) && typeof value.query === 'string') {
+        const config = value.config ? `(${value.config})` : '';
+        return { operator: `${pgOperator}${config}`, value: scalar(value.query) };
+      }
+      throw new Error(`Invalid filter for "${column}": ${operator} requires a string or {query, config?}`);
+
+    default:
+      if (value === undefined || isPlainObject(value) || Array.isArray(value)) {
+        throw new Error(`Invalid filter for "${column}": ${operator} requires a scalar value`);
+      }
+      return { operator: pgOperator, value: scalar(value) };
+  }
+}
+
+// Compile the conditions for a single column, e.g. {gte: 18, not: {in: [1, 2]}}
+function compileColumnFilters(column: string, condition: unknown, inLogic: boolean, negate = false) {
+  // Bare values keep the original equality semantics
+  if (!isPlainObject(condition)) {
+    condition = { eq: condition };
+  }
+
+  const entries = Object.entries(condition as Record<string, unknown>);
+  if (entries.length === 0) {
+    throw new Error(`Invalid filter for "${column}": empty condition`);
+  }
+
+  const filters: { column: string, operator: string, value: string }[] = [];
+  for (const [operator, value] of entries) {
+    if (operator === 'not') {
+      if (negate) {
+        throw new Error(`Invalid filter for "${column}": nested "not" is not supported`);
+      }
+      if (!isPlainObject(value)) {
+        throw new Error(`Invalid filter for "${column}": not requires an operator object, e.g. {not: {eq: 1}}`);
+      }
+      filters.push(...compileColumnFilters(column, value, inLogic, true));
+      continue;
+    }
+
+    if (!(operator in FILTER_OPERATORS)) {
+      throw new Error(`Invalid filter for "${column}": unknown operator "${operator}". Supported: ${Object.keys(FILTER_OPERATORS).join(', ')}, not`);
+    }
+
+    const formatted = formatFilterValue(column, operator, value, inLogic);
+    const pgOperator = negate
+      ? (formatted.operator.startsWith('not.') ? formatted.operator.slice(4) : `not.${formatted.operator}`)
+      : formatted.operator;
+    filters.push({ column, operator: pgOperator, value: formatted.value });
+  }
+  return filters;
+}
+
+// Compile a where-object into a PostgREST logic expression body, e.g. "a.eq.1,b.gt.2"
+function compileLogicGroup(where: unknown, path: string): string[] {
+  if (!isPlainObject(where) || Object.keys(where).length === 0) {
+    throw new Error(`Invalid filter at "${path}": each group entry must be a non-empty object`);
+  }
+
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'or' || key === 'and') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`Invalid filter at "${path}.${key}": ${key} requires a non-empty array of conditions`);
+      }
+      const members = value.map((member, i) => {
+        const inner = compileLogicGroup(member, `${path}.${key}[${i}]`);
+        return inner.length === 1 ? inner[0] : `and(${inner.join(',')})`;
+      });
+      parts.push(`${key}(${members.join(',')})`);
+      continue;
+    }
+    compileColumnFilters(key, value, true).forEach(f => {
+      parts.push(`${f.column}.${f.operator}.${f.value}`);
+    });
+  }
+  return parts;
+}
+
+// Compile the `where` argument into filters, validating every operator up front
+function compileFilters(where: Record<string, unknown>): CompiledFilter[] {
+  const filters: CompiledFilter[] = [];
+
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error('Invalid filter at "or": or requires a non-empty array of conditions');
+      }
+      const members = value.map((member, i) => {
+        const inner = compileLogicGroup(member, `or[${i}]`);
+        return inner.length === 1 ? inner[0] : `and(${inner.join(',')})`;
+      });
+      filters.push({ kind: 'or', expression: members.join(',') });
+      continue;
+    }
+
+    if (key === 'and') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error('Invalid filter at "and": and requires a non-empty array of conditions');
+      }
+      value.forEach((member, i) => {
+        if (!isPlainObject(member)) {
+          throw new Error(`Invalid filter at "and[${i}]": each group entry must be a non-empty object`);
+        }
+        filters.push(...compileFilters(member));
+      });
+      continue;
+    }
+
+    compileColumnFilters(key, value, false).forEach(f => {
+      filters.push({ kind: 'filter', ...f });
+    });
+  }
+
+  return filters;
+}
+
+interface FilterableQuery<Q> {
+  filter(column: string, operator: any, value: unknown): Q;
+  or(filters: string, options?: { referencedTable?: string }): Q;
+}
+
+// Apply compiled filters to any PostgREST filter builder (select, update, delete).
+// With referencedTable the filters target an embedded relation instead of the root table.
+function applyFilters<Q extends FilterableQuery<Q>>(query: Q, filters: CompiledFilter[], tag: string, referencedTable?: string): Q {
+  for (const f of filters) {
+    if (f.kind === 'or') {
+      log.debug(`  🔍 [${tag}] Filter: ${referencedTable ? `${referencedTable}.` : ''}or(${f.expression})`);
+      query = query.or(f.expression, referencedTable ? { referencedTable } : undefined);
+    } else {
+      const column = referencedTable ? `${referencedTable}.${f.column}` : f.column;
+      log.debug(`  🔍 [${tag}] Filter: ${column} ${f.operator} ${f.value}`);
+      query = query.filter(column, f.operator, f.value);
+    }
+  }
+  return query;
+}
+
+// Maximum rows returned per query, and per parent row for embedded relations
+const MAX_ROWS = 100;
+
+// Rows sent per request when mutate gets an array payload
+const MUTATE_BATCH_SIZE = 500;
+
+const orderBySchema = z.array(z.object({
+  column: z.string(),
+  direction: z.enum(['asc', 'desc']).optional(),
+  nulls: z.enum(['first', 'last']).optional()
+}));
+
+type OrderBy = z.infer<typeof orderBySchema>[number];
+
+type RelationSpec = {
+  name: string,
+  alias?: string,
+  fk?: string,
+  inner?: boolean,
+  columns?: string[],
+  where?: Record<string, any>,
+  orderBy?: OrderBy[],
+  limit?: number,
+  relations?: RelationSpec[]
+};
+
+const relationSchema: z.ZodType<RelationSpec> = z.lazy(() => z.object({
+  name: z.string().describe("Related table"),
+  alias: z.string().optional().describe("Result key"),
+  fk: z.string().optional().describe("Foreign key name when ambiguous"),
+  inner: z.boolean().optional().describe("Only parents with matching rows"),
+  columns: z.array(z.string()).optional(),
+  where: z.record(z.any()).optional(),
+  orderBy: orderBySchema.optional(),
+  limit: z.number().optional(),
+  relations: z.array(relationSchema).optional()
+}));
+
+type RelationStep = { path: string, filters: CompiledFilter[], orderBy: OrderBy[], limit: number };
+
+// Collect the table names referenced by nested relation specs
+// Embeds hidden in a column list or relation name would reach tables the policy never saw,
+// so related tables can only be embedded through relations
+function assertNoEmbeds(names: (string | undefined)[], path: string) {
+  const embedded = names.find(name => name !== undefined && /[()]/.test(name));
+  if (embedded !== undefined) {
+    throw new Error(`Invalid ${path} "${embedded}": embed related tables with relations instead`);
+  }
+}
+
+function relationTables(relations: RelationSpec[]): string[] {
+  return relations.flatMap(r => [r.name, ...relationTables(r.relations || [])]);
+}
+
+// Compile nested relation specs into PostgREST embeds, e.g. "items!inner(*,product(name))",
+// plus the per-relation filter/order/limit steps keyed by their embed path
+function compileRelations(relations: RelationSpec[], parentPath = ''): { embeds: string[], steps: RelationStep[] } {
+  const embeds: string[] = [];
+  const steps: RelationStep[] = [];
+
+  for (const relation of relations) {
+    if (!relation.name) {
+      throw new Error('Invalid relation: name is required');
+    }
+    const key = relation.alias || relation.name;
+    const path = parentPath ? `${parentPath}.${key}` : key;
+    assertNoEmbeds([relation.name, relation.alias, relation.fk], `relation at "${path}"`);
+    assertNoEmbeds(relation.columns || [], `column in relation "${path}"`);
+
+    const nested = compileRelations(relation.relations || [], path);
+    const columns = relation.columns && relation.columns.length > 0 ? relation.columns : ['*'];
+    const target = `${relation.name}${relation.fk ? `!${relation.fk}` : ''}${relation.inner ? '!inner' : ''}`;
+    embeds.push(`${relation.alias ? `${relation.alias}:` : ''}${target}(${[...columns, ...nested.embeds].join(',')})`);
+
+    steps.push({
+      path,
+      filters: compileFilters(relation.where || {}),
+      orderBy: relation.orderBy || [],
+      limit: Math.min(relation.limit ?? MAX_ROWS, MAX_ROWS)
+    });
+    steps.push(...nested.steps);
+  }
+
+  return { embeds, steps };
+}
+
+
+// Encode the orderBy values of the last row into an opaque keyset cursor
+function encodeCursor(row: Record<string, unknown>, orderBy: OrderBy[]): string {
+  const values = orderBy.map(o => row[o.column]);
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, orderBy: OrderBy[]): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (!Array.isArray(values) || values.length !== orderBy.length) {
+    throw new Error('Invalid cursor - it does not match the current orderBy');
+  }
+  return values;
+}
+
+// Build the keyset condition "rows after the cursor", e.g. (a > x) OR (a = x AND b > y).
+// NULLs sort where Postgres puts them - last for asc, first for desc, unless nulls says otherwise
+function buildKeysetFilter(orderBy: OrderBy[], values: unknown[]): Record<string, unknown> {
+  const isNull = (value: unknown) => value === null || value === undefined;
+  const branches: Record<string, unknown>[] = [];
+
+  orderBy.forEach((o, i) => {
+    const nullsLast = o.nulls ? o.nulls === 'last' : o.direction !== 'desc';
+    // Rows after the cursor value in this column - nothing follows a NULL that sorts last
+    let after: Record<string, unknown> | null;
+    if (isNull(values[i])) {
+      after = nullsLast ? null : { [o.column]: { not: { is: null } } };
+    } else {
+      const beyond = { [o.column]: { [o.direction === 'desc' ? 'lt' : 'gt']: values[i] } };
+      after = nullsLast ? { or: [beyond, { [o.column]: { is: null } }] } : beyond;
+    }
+    if (!after) {
+      return;
+    }
+
+    const branch: Record<string, unknown> = {};
+    for (let j = 0; j < i; j++) {
+      branch[orderBy[j].column] = isNull(values[j]) ? { is: null } : { eq: values[j] };
+    }
+    branches.push({ ...branch, ...after });
+  });
+
+  if (branches.length === 0) {
+    throw new Error('Invalid cursor - no row can follow it in this order');
+  }
+  return { or: branches };
+}
+
+// Rows captured per mutation - larger writes are journaled but cannot be reverted
+const JOURNAL_MAX_ROWS = 1000;
+
+// Rows matched per request when looking rows up by primary key
+const JOURNAL_KEY_CHUNK = 100;
+
+type JournalEntry = {
+  id: string,
+  time: string,
+  project: string,
+  schema: string,
+  table: string,
+  action: 'insert' | 'update' | 'upsert' | 'delete' | 'revert',
+  as?: string,
+  where?: Record<string, unknown>,
+  primaryKey?: string[],
+  before?: any[],
+  after?: any[],
+  revertible?: boolean,
+  note?: string,
+  reverts?: string,
+  rows?: number,
+  owner?: string
+};
+
+// Primary key columns per table, keyed by project, schema and table
+const primaryKeyCache: { [tableKey: string]: string[] } = {};
+
+function journalPath(config: Config): string {
+  return config.journalFile || join(homedir(), '.supabase-mcp-lite', 'journal.jsonl');
+}
+
+// Entries are tagged with a hash of the credentials that wrote them, so sessions sharing
+// a journal file only ever see (and revert) their own mutations
+function journalOwner(config: Config): string {
+  return secretId([config.accessToken || '', ...Object.values(config.profiles || {}).map(p => p.serviceRoleKey).sort()].join(','));
+}
+
+// The journal is append-only: reverts are recorded as new entries
+async function appendJournal(config: Config, entry: JournalEntry) {
+  // Row images can hold personal data and secrets - keep them private to the server's user
+  const file = journalPath(config);
+  await mkdir(dirname(file), { recursive: true, mode: 0o700 });
+  await appendFile(file, JSON.stringify({ ...entry, owner: journalOwner(config) }) + '\n', { mode: 0o600 });
+  log.info(`📓 [Journal] Recorded ${entry.action} on ${entry.schema}.${entry.table}:`, entry.id);
+}
+
+// Journal a write that already happened - a journal failure is logged, not reported as a failed write
+async function recordMutation(config: Config, entry: Omit<JournalEntry, 'id' | 'time'>): Promise<string | undefined> {
+  const id = randomUUID().slice(0, 12);
+  try {
+    await appendJournal(config, { id, time: new Date().toISOString(), ...entry });
+    return id;
+  } catch (error) {
+    log.error('❌ [Journal] Failed to record mutation:', error);
+    return undefined;
+  }
+}
+
+async function readJournal(config: Config): Promise<JournalEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(journalPath(config), 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const owner = journalOwner(config);
+  const entries: JournalEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry: JournalEntry = JSON.parse(line);
+      if (entry.owner === owner) {
+        entries.push(entry);
+      }
+    } catch {
+      log.warn('⚠️ [Journal] Skipping unreadable journal line');
+    }
+  }
+  return entries;
+}
+
+// Primary key columns from the PostgREST OpenAPI description, which marks them with <pk/>
+async function getPrimaryKey(projectUrl: string, projectId: string, config: Config, schema: string, table: string): Promise<string[]> {
+  const tableKey = `${projectId}|${schema}|${table}`;
+  if (primaryKeyCache[tableKey]) {
+    return primaryKeyCache[tableKey];
+  }
+
+  log.info(`🔑 [Journal] Reading primary key of ${schema}.${table}`);
+  const { serviceRoleKey } = await getKeysFor(projectId, config);
+  const response = await fetchWithRetry(`${projectUrl}/rest/v1/`, {
+    headers: {
+      'apikey': serviceRoleKey,
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Accept-Profile': schema
+    }
+  });
+  if (!response.ok) {
+    throw Object.assign(new Error(`Failed to read table definitions: ${response.status} ${response.statusText}`), { status: response.status });
+  }
+
+  const spec = await response.json() as any;
+  const properties = spec?.definitions?.[table]?.properties || {};
+  primaryKeyCache[tableKey] = Object.entries(properties)
+    .filter(([, property]: [string, any]) => typeof property?.description === 'string' && property.description.includes('<pk/>'))
+    .map(([column]) => column);
+  return primaryKeyCache[tableKey];
+}
+
+// where filter matching the given rows by primary key
+function primaryKeyFilter(primaryKey: string[], rows: any[]): Record<string, unknown> {
+  if (primaryKey.length === 1) {
+    return { [primaryKey[0]]: { in: rows.map(row => row[primaryKey[0]]) } };
+  }
+  return { or: rows.map(row => Object.fromEntries(primaryKey.map(column => [column, { eq: row[column] }]))) };
+}
+
+function primaryKeyOf(primaryKey: string[], row: any): string {
+  return JSON.stringify(primaryKey.map(column => row[column]));
+}
+
+// Local migration files are named <version>_<name>.sql, as written by the Supabase CLI
+const MIGRATION_FILE_PATTERN = /^(\d+)_(.+)\.sql$/;
+
+type LocalMigration = { version: string, name: string, file: string };
+
+async function readLocalMigrations(directory: string): Promise<LocalMigration[]> {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw categorizedError('not_found', `Migrations directory not found: ${directory}`);
+    }
+    throw error;
+  }
+  return files
+    .map(file => ({ file, match: MIGRATION_FILE_PATTERN.exec(file) }))
+    .filter(f => f.match)
+    .map(f => ({ version: f.match![1], name: f.match![2], file: join(directory, f.file) }))
+    .sort((a, b) => a.version.localeCompare(b.version));
+}
+
+// Find a development branch of a project by ID, name or project ref
+async function findBranch(projectId: string, accessToken: string, branch: string): Promise<any> {
+  const branches: any[] = await managementApi(`/projects/${projectId}/branches`, accessToken) || [];
+  const found = branches.find(b => b.id === branch || b.name === branch || b.project_ref === branch);
+  if (!found) {
+    throw categorizedError('not_found', `No branch "${branch}" - use the branches tool to list them`);
+  }
+  return found;
+}
+
+// Edge Function response bodies are cut to this many characters
+const FUNCTION_MAX_BODY_CHARS = 10000;
+
+// Default Edge Function invocation timeout
+const FUNCTION_TIMEOUT_MS = 30000;
+
+// apikey and Authorization headers for calling project endpoints as service, anon or a user
+async function roleHeaders(projectUrl: string, projectId: string, config: Config, role = 'service'): Promise<{ [header: string]: string }> {
+  const { serviceRoleKey, anonKey } = await getKeysFor(projectId, config);
+  if (role === 'service') {
+    return { 'apikey': serviceRoleKey, 'Authorization': `Bearer ${serviceRoleKey}` };
+  }
+  if (!anonKey) {
+    throw new Error(`No anon key available for "${projectId}" - needed to run as ${role}`);
+  }
+  if (role === 'anon') {
+    return { 'apikey': anonKey, 'Authorization': `Bearer ${anonKey}` };
+  }
+  const accessToken = await getUserAccessToken(projectUrl, projectId, config, role.slice('user:'.length), anonKey);
+  return { 'apikey': anonKey, 'Authorization': `Bearer ${accessToken}` };
+}
+
+// How long generated types are reused for slicing and column checks
+const TYPES_TTL_MS = 5 * 60 * 1000;
+
+// Generated TypeScript types, keyed by project and schema list
+const typesCache: { [typesKey: string]: { types: string, fetchedAt: number } } = {};
+
+type TypeKind = 'Tables' | 'Views' | 'Functions';
+
+async function getGeneratedTypes(projectId: string, config: Config, schemas: string[]): Promise<string> {
+  // Keyed by token too, so a session only gets types its own token was allowed to generate
+  const accessToken = managementToken(config, projectId);
+  const typesKey = `${secretId(accessToken)}|${projectId}|${schemas.join(',')}`;
+  const cached = typesCache[typesKey];
+  if (cached && Date.now() - cached.fetchedAt < TYPES_TTL_MS) {
+    log.info('📦 [Cache] Using cached types for project:', projectId);
+    return cached.types;
+  }
+
+  log.info(`🔑 [API] Generating types for project: ${projectId} (schemas: ${schemas.join(', ')})`);
+  const result = await managementApi(
+    `/projects/${projectId}/types/typescript?included_schemas=${encodeURIComponent(schemas.join(','))}`,
+    accessToken
+  );
+  typesCache[typesKey] = { types: result?.types || '', fetchedAt: Date.now() };
+  return typesCache[typesKey].types;
+}
+
+// Matches a member line of the generated Database type at the given indent, e.g. `      orders: {`
+function typeMemberPattern(indent: number, name?: string) {
+  const key = name === undefined ? '(?:"[^"]+"|[\\w$]+)' : `(?:"${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"|${/^[\w$]+$/.test(name) ? name : '(?!)'})`;
+  return new RegExp(`^ {${indent}}${key}\\??:`);
+}
+
+// Lines of one member, from its key up to the next sibling or the end of the parent block
+function typeMember(lines: string[], from: number, to: number, indent: number, name: string): [number, number] | undefined {
+  const pattern = typeMemberPattern(indent, name);
+  const start = lines.slice(from, to).findIndex(line => pattern.test(line));
+  if (start === -1) {
+    return undefined;
+  }
+  const sibling = typeMemberPattern(indent);
+  let end = from + start + 1;
+  while (end < to && !sibling.test(lines[end]) && (lines[end].length - lines[end].trimStart().length >= indent || lines[end].trim() === '')) {
+    end++;
+  }
+  return [from + start, end];
+}
+
+// Slice of the generated types for one table, view or function: Database[schema][kind][name]
+function typeSlice(types: string, schema: string, kind: TypeKind, name: string): string | undefined {
+  const lines = types.split('\n');
+  const schemaBlock = typeMember(lines, 0, lines.length, 2, schema);
+  const kindBlock = schemaBlock && typeMember(lines, schemaBlock[0] + 1, schemaBlock[1], 4, kind);
+  const member = kindBlock && typeMember(lines, kindBlock[0] + 1, kindBlock[1], 6, name);
+  return member && lines.slice(member[0], member[1]).map(line => line.slice(6)).join('\n');
+}
+
+// Column names from the Row type of a table or view slice
+function typeColumns(slice: string): string[] {
+  const lines = slice.split('\n');
+  const row = typeMember(lines, 0, lines.length, 2, 'Row');
+  if (!row) {
+    return [];
+  }
+  const column = /^ {4}(?:"([^"]+)"|([\w$]+))\??:/;
+  return lines.slice(row[0] + 1, row[1])
+    .map(line => column.exec(line))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => match[1] ?? match[2]);
+}
+
+// Column a select/filter expression refers to: "total:amount::text" and "data->>name" name amount and data
+function baseColumn(expression: string): string {
+  const withoutCast = expression.split('::')[0];
+  const withoutAlias = withoutCast.slice(withoutCast.lastIndexOf(':') + 1);
+  return withoutAlias.split('->')[0].trim();
+}
+
+// Columns a where-object filters on, including those inside or/and groups
+function whereColumns(where: Record<string, unknown>): string[] {
+  return Object.entries(where).flatMap(([key, value]) => key === 'or' || key === 'and'
+    ? (Array.isArray(value) ? value.filter(isPlainObject).flatMap(whereColumns) : [])
+    : [baseColumn(key)]);
+}
+
+// Check column names against the generated types before a request goes out. Skipped when
+// validateColumns is off, for profiles, and when the table is not in the types
+async function validateColumns(config: Config, projectId: string, schema: string, table: string, columns: string[]) {
+  if (!config.validateColumns || config.profiles?.[projectId]) {
+    return;
+  }
+  let known: string[];
+  try {
+    const types = await getGeneratedTypes(projectId, config, [schema]);
+    known = typeColumns(typeSlice(types, schema, 'Tables', table) ?? typeSlice(types, schema, 'Views', table) ?? '');
+  } catch (error) {
+    log.warn(`⚠️ [Types] Could not load types to check columns of ${schema}.${table}:`, error);
+    return;
+  }
+  if (known.length === 0) {
+    log.warn(`⚠️ [Types] No type information for ${schema}.${table} - skipping column check`);
+    return;
+  }
+  const unknown = [...new Set(columns)].filter(c => c && c !== '*' && !c.includes('(') && !known.includes(c));
+  if (unknown.length > 0) {
+    throw categorizedError('validation', `Unknown column${unknown.length > 1 ? 's' : ''} ${unknown.map(c => `"${c}"`).join(', ')} in ${schema}.${table}. Columns: ${known.join(', ')}`);
+  }
+}
+
+// Rows fetched per request while exporting
+const EXPORT_PAGE_SIZE = 1000;
+
+// Exports to storage are built in memory before upload, imports are read in full
+const BULK_MAX_BYTES = 50 * 1024 * 1024;
+
+// Unknown table or column - every row fails the same way, so retrying rows one by one is pointless
+const BULK_SCHEMA_ERROR_CODES = new Set(['PGRST204', 'PGRST205', '42703', '42P01']);
+
+// Single-row retries that may all fail with the same validation error before the import stops
+const BULK_PROBE_ROWS = 5;
+
+const bulkFormatSchema = z.enum(['csv', 'ndjson', 'json']);
+
+type BulkFormat = z.infer<typeof bulkFormatSchema>;
+
+// Type coercions for imported values - CSV cells all arrive as text
+const coercionSchema = z.enum(['text', 'integer', 'number', 'boolean', 'json', 'timestamp']);
+
+type ImportFailure = { row: number, error: ErrorCategory, message: string, code?: string, details?: string };
+
+// Resolve a local file inside dataDir; anything outside it is refused
+function dataFilePath(config: Config, file: string): string {
+  if (!config.dataDir) {
+    throw categorizedError('permission', 'Local files are disabled - set dataDir in the server config');
+  }
+  const root = resolve(config.dataDir);
+  const full = resolve(root, file);
+  if (!full.startsWith(root + sep)) {
+    throw categorizedError('permission', `Path "${file}" is outside dataDir`);
+  }
+  return full;
+}
+
+function formatFromPath(path: string): BulkFormat | undefined {
+  const extension = path.split('.').pop()?.toLowerCase();
+  return extension === 'csv' ? 'csv'
+    : extension === 'ndjson' || extension === 'jsonl' ? 'ndjson'
+    : extension === 'json' ? 'json'
+    : undefined;
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines are not rows
+  return records.filter(r => r.length > 1 || r[0] !== '');
+}
+
+// Parse import data into numbered rows (1-based, header excluded); unreadable rows become failures
+function parseImport(text: string, format: BulkFormat, emptyAsNull: boolean) {
+  const rows: { row: number, values: Record<string, unknown> }[] = [];
+  const failures: ImportFailure[] = [];
+  
+  if (format === 'csv') {
+    const [header, ...records] = parseCsv(text);
+    if (!header) {
+      return { rows, failures };
+    }
+    records.forEach((record, i) => {
+      if (record.length !== header.length) {
+        failures.push({ row: i + 1, error: 'validation', message: `Expected ${header.length} fields, got ${record.length}` });
+        return;
+      }
+      rows.push({ row: i + 1, values: Object.fromEntries(header.map((column, c) => [column, emptyAsNull && record[c] === '' ? null : record[c]])) });
+    });
+  } else if (format === 'ndjson') {
+    text.split(/\r?\n/).filter(line => line.trim()).forEach((line, i) => {
+      try {
+        const value = JSON.parse(line);
+        if (!isPlainObject(value)) {
+          throw new Error('not an object');
+        }
+        rows.push({ row: i + 1, values: value });
+      } catch (error: any) {
+        failures.push({ row: i + 1, error: 'validation', message: `Invalid JSON line: ${error?.message}` });
+      }
+    });
+  } else {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON imports must be an array of objects');
+    }
+    parsed.forEach((value, i) => {
+      if (isPlainObject(value)) {
+        rows.push({ row: i + 1, values: value });
+      } else {
+        failures.push({ row: i + 1, error: 'validation', message: 'Not an object' });
+      }
+    });
+  }
+  return { rows, failures };
+}
+
+const BOOLEAN_VALUES: { [text: string]: boolean } = { true: true, t: true, yes: true, y: true, '1': true, false: false, f: false, no: false, n: false, '0': false };
+
+function coerceValue(value: unknown, type: z.infer<typeof coercionSchema>): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (type) {
+    case 'text':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'integer':
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (String(value).trim() === '' || Number.isNaN(number) || (type === 'integer' && !Number.isInteger(number))) {
+        throw new Error(`"${value}" is not ${type === 'integer' ? 'an integer' : 'a number'}`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      const bool = typeof value === 'boolean' ? value : BOOLEAN_VALUES[String(value).trim().toLowerCase()];
+      if (bool === undefined) {
+        throw new Error(`"${value}" is not a boolean`);
+      }
+      return bool;
+    }
+    case 'json':
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    case 'timestamp': {
+      const date = new Date(value as string | number);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${value}" is not a date`);
+      }
+      return date.toISOString();
+    }
+  }
+}
+
+export default function createServer({ config }: { config: Config }) {
+  const withRequestLog = createRequestLog(configureLogger(config));
+  log.info('🚀 [Server] Initializing Supabase MCP Lite v1.0.0');
+  
+  const server = new McpServer({
+    name: "supabase-lite",
+    version: "1.0.0",
+  });
+
+  const profileNames = Object.keys(config?.profiles || {});
+  
+  // Check if access token or a profile is provided
+  if (!config?.accessToken && profileNames.length === 0) {
+    log.error('❌ [Server] CRITICAL: Supabase Personal Access Token not configured!');
+    log.warn("Please provide accessToken (starts with sbp_) from https://supabase.com/dashboard/account/tokens, or profiles for self-hosted/local stacks");
+    return server.server;
+  }
+
+  // Validate token format - only cloud projects use the token
+  if (config.accessToken && !config.accessToken.startsWith('sbp_')) {
+    log.error('❌ [Server] Invalid access token format. Must start with sbp_');
+    log.warn("Access token should start with sbp_. Get it from https://supabase.com/dashboard/account/tokens");
+    return server.server;
+  }
+  
+  if (config.accessToken) {
+    log.info('✅ [Server] Supabase Personal Access Token configured');
+    log.info('⚠️  [Server] Will fetch service role key automatically for each project');
+  }
+  if (profileNames.length > 0) {
+    log.info('✅ [Server] Connection profiles configured:', profileNames.join(', '));
+  }
+  log.info('📝 [Server] Registering 15 tools: select, mutate, storage, auth, schema, rpc, sql, refresh, projects, history, migrations, branches, functions, types, bulk');
+
+  // Tool 1: Select - Simple table query
+  server.registerTool("select", {
+    title: "Get data",
+    description: "Select data from a table",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      table: z.string().describe("Table name"),
+      schema: z.string().optional().describe("Database schema (default from config, else public)"),
+      where: z.record(z.any()).optional().describe("Filter conditions, e.g. {age: {gte: 18}, status: {in: ['a','b']}, or: [{a: 1}, {b: {is: null}}]}"),
+      columns: z.array(z.string()).optional().describe("Columns to return (default all)"),
+      orderBy: orderBySchema.optional().describe("Sort order"),
+      relations: z.array(relationSchema).optional().describe("Embedded related tables, e.g. [{name: 'items', relations: [{name: 'product', columns: ['name']}]}]"),
+      limit: z.number().optional().describe("Maximum rows to return"),
+      offset: z.number().optional().describe("Rows to skip"),
+      cursor: z.string().optional().describe("nextCursor from a previous page (requires orderBy)"),
+      count: z.enum(['exact', 'planned', 'estimated']).optional().describe("Include total row count"),
+      as: roleSchema.optional().describe("Run as service (default), anon or user:<id|email>"),
+      format: outputFormatSchema.optional().describe("Result format: json, compact, csv or markdown (default from config)")
+    }
+  }, withRequestLog('select', async ({ projectUrl, table, schema = config.defaultSchema || 'public', where = {}, columns, orderBy = [], relations = [], limit = MAX_ROWS, offset, cursor, count, as = 'service', format }) => {
+    log.info('🔵 [Select] Started with params:', { projectUrl, table, schema, where, columns, orderBy, relations, limit, offset, cursor, count, as, format });
+    
+    try {
+      // Validate filters and relations before any request goes out
+      const filters = compileFilters(where);
+      const { embeds, steps } = compileRelations(relations);
+      assertNoEmbeds(columns || [], 'column');
+      
+      if (cursor !== undefined && offset !== undefined) {
+        throw new Error('Use either offset or cursor, not both');
+      }
+      if (cursor !== undefined && orderBy.length === 0) {
+        throw new Error('Cursor pagination requires orderBy');
+      }
+      
+      // Resolve the project, enforce policy, then get the pooled client
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: false, schema, tables: [table, ...relationTables(relations)] });
+      if (denied) {
+        return policyDenied('select', denied);
+      }
+      await validateColumns(config, projectId, schema, table, [
+        ...(columns || []).map(baseColumn),
+        ...whereColumns(where),
+        ...orderBy.map(o => o.column)
+      ]);
+      
+      // Cursors page over orderBy plus the primary key as a tie-breaker, so equal values
+      // never skip or repeat rows between pages
+      const primaryKey = orderBy.length > 0
+        ? await getPrimaryKey(apiUrl, projectId, config, schema, table).catch(() => [] as string[])
+        : [];
+      const cursorOrder: OrderBy[] = [
+        ...orderBy,
+        ...primaryKey.filter(column => !orderBy.some(o => o.column === column)).map(column => ({ column }))
+      ];
+      // Keyset cursors can only be built when every cursor column is returned
+      const missingCursorColumns = columns && !columns.includes('*')
+        ? cursorOrder.filter(o => !columns.includes(o.column)).map(o => o.column)
+        : [];
+      if (cursor !== undefined && missingCursorColumns.length > 0) {
+        throw new Error(`Cursor pagination needs the orderBy and primary key columns in columns: missing ${missingCursorColumns.join(', ')}`);
+      }
+      if (cursor !== undefined) {
+        log.info('🔖 [Select] Resuming from cursor');
+        filters.push(...compileFilters(buildKeysetFilter(cursorOrder, decodeCursor(cursor, cursorOrder))));
+      }
+      
+      const client = await getRoleClient(apiUrl, projectId, config, schema, as);
+      log.info(as === 'service' ? '🔓 [Select] Using service role key - bypassing RLS' : `🔒 [Select] Running as ${as} - RLS applies`);
+      
+      log.info('📝 [Select] Building query for table:', table);
+      const selectColumns = [...(columns && columns.length > 0 ? columns : ['*']), ...embeds].join(',');
+      let query = client.from(table).select(selectColumns, count ? { count } : undefined);
+      
+      // Apply filters
+      if (filters.length > 0) {
+        log.info('🔀 [Select] Applying filters:', { where });
+        query = applyFilters(query, filters, 'Select');
+      } else {
+        log.info('🔀 [Select] No filters applied');
+      }
+      
+      // Apply per-relation filters, ordering and limits
+      steps.forEach(step => {
+        log.info(`🔗 [Select] Embedding relation: ${step.path} (limit ${step.limit})`);
+        query = applyFilters(query, step.filters, 'Select', step.path);
+        step.orderBy.forEach(o => {
+          query = query.order(o.column, {
+            ascending: o.direction !== 'desc',
+            referencedTable: step.path,
+            ...(o.nulls ? { nullsFirst: o.nulls === 'first' } : {})
+          });
+        });
+        query = query.limit(step.limit, { referencedTable: step.path });
+      });
+      
+      // Apply ordering
+      cursorOrder.forEach(o => {
+        log.info(`↕️ [Select] Ordering by: ${o.column} ${o.direction || 'asc'}${o.nulls ? ` nulls ${o.nulls}` : ''}`);
+        query = query.order(o.column, {
+          ascending: o.direction !== 'desc',
+          ...(o.nulls ? { nullsFirst: o.nulls === 'first' } : {})
+        });
+      });
+      
+      // Apply limit / offset
+      if (offset !== undefined) {
+        log.info('📊 [Select] Applying range:', { offset, limit });
+        query = query.range(offset, offset + limit - 1);
+      } else {
+        log.info('📊 [Select] Applying limit:', limit);
+        query = query.limit(limit);
+      }
+      
+      log.info('⚡ [Select] Executing query...');
+      const { data, error, count: total } = await query;
+      
+      if (error) {
+        log.error('❌ [Select] Query error:', {
+          message: error.message,
+          details: error.details,
+          hint: error.hint,
+          code: error.code,
+          fullError: JSON.stringify(error, null, 2)
+        });
+        throw explainSchemaError(error, schema);
+      }
+      
+      const rows = (data || []) as unknown as Record<string, unknown>[];
+      const resultCount = rows.length;
+      log.info('✅ [Select] Query successful, returned rows:', resultCount);
+      
+      // A full page with an ordering means there may be more rows after it
+      const nextCursor = orderBy.length > 0 && missingCursorColumns.length === 0 && resultCount === limit
+        ? encodeCursor(rows[resultCount - 1], cursorOrder)
+        : undefined;
+      
+      return respond(config, {
+        data: rows, 
+        count: resultCount,
+        ...(count ? { total } : {}),
+        ...(nextCursor ? { nextCursor } : {})
+      }, {
+        format,
+        rowsKey: 'data',
+        // Rows dropped for the response budget continue from the last row that was kept
+        continuation: kept => orderBy.length > 0 && missingCursorColumns.length === 0 && (kept.length > 0 || cursor)
+          ? { nextCursor: kept.length > 0 ? encodeCursor(kept[kept.length - 1], cursorOrder) : cursor }
+          : { nextOffset: (offset ?? 0) + kept.length }
+      });
+    } catch (error: any) {
+      log.error('❌ [Select] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('select', error);
+    }
+  }));
+
+  // Tool 2: Mutate - Insert/Update/Upsert/Delete
+  server.registerTool("mutate", {
+    title: "Change data",
+    description: "Insert, update, upsert or delete data",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum(['insert', 'update', 'upsert', 'delete']).describe("Operation type"),
+      table: z.string().describe("Table name"),
+      schema: z.string().optional().describe("Database schema (default from config, else public)"),
+      data: z.any().optional().describe("Data for insert/update/upsert (object or array)"),
+      where: z.record(z.any()).optional().describe("Filter for update/delete (same operators as select)"),
+      onConflict: z.string().optional().describe("Upsert conflict columns, e.g. 'email' or 'org_id,slug'"),
+      ignoreDuplicates: z.boolean().optional().describe("Upsert: skip conflicting rows instead of updating"),
+      returning: z.boolean().optional().describe("Return the written rows"),
+      batchSize: z.number().optional().describe(`Rows per request for array data (default ${MUTATE_BATCH_SIZE})`),
+      confirmAll: z.boolean().optional().describe("Allow update/delete without where, or above maxAffectedRows"),
+      dryRun: z.boolean().optional().describe("Preview the rows that would be touched without changing anything"),
+      as: roleSchema.optional().describe("Run as service (default), anon or user:<id|email>")
+    }
+  }, withRequestLog('mutate', async ({ projectUrl, action, table, schema = config.defaultSchema || 'public', data, where = {}, onConflict, ignoreDuplicates, returning = false, batchSize = MUTATE_BATCH_SIZE, confirmAll = false, dryRun = false, as = 'service' }) => {
+    log.info('🔵 [Mutate] Started with params:', { 
+      projectUrl, 
+      action, 
+      table, 
+      schema,
+      data: data ?? 'none',
+      where: Object.keys(where).length > 0 ? where : 'none',
+      onConflict: onConflict || 'none',
+      ignoreDuplicates: !!ignoreDuplicates,
+      returning,
+      batchSize,
+      confirmAll,
+      dryRun,
+      as
+    });
+    
+    try {
+      // Validate filters before any request goes out
+      const filters = compileFilters(where);
+      
+      if (batchSize < 1) {
+        throw new Error('batchSize must be at least 1');
+      }
+      if (action === 'update' && Array.isArray(data)) {
+        throw new Error('Update takes a single object - use upsert for per-row changes');
+      }
+      
+      // Refuse table-wide update/delete unless explicitly confirmed
+      const filtered = action === 'update' || action === 'delete';
+      if (filtered && filters.length === 0 && !confirmAll && !dryRun) {
+        log.error(`❌ [Mutate] Refusing ${action} without WHERE clause`);
+        throw new Error(`Refusing to ${action} every row of "${table}" - add a where filter or pass confirmAll: true`);
+      }
+      
+      // Resolve the project, enforce policy, then get the pooled client
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: true, schema, tables: [table] });
+      if (denied) {
+        return policyDenied('mutate', denied);
+      }
+      await validateColumns(config, projectId, schema, table, [
+        ...whereColumns(where),
+        ...(Array.isArray(data) ? data : [data]).filter(isPlainObject).flatMap(row => Object.keys(row)),
+        ...(onConflict ? onConflict.split(',').map(c => c.trim()) : [])
+      ]);
+      const client = await getRoleClient(apiUrl, projectId, config, schema, as);
+      log.info(as === 'service' ? '🔓 [Mutate] Using service role key - bypassing RLS' : `🔒 [Mutate] Running as ${as} - RLS applies`);
+      
+      // Preview and row threshold checks run the same filter as a select
+      if (filtered && (dryRun || (config.maxAffectedRows !== undefined && !confirmAll))) {
+        log.info(`🔎 [Mutate] Counting rows matched by ${action} filter`);
+        let previewQuery = client.from(table).select('*', { count: 'exact', head: !dryRun });
+        previewQuery = applyFilters(previewQuery, filters, 'Mutate');
+        const preview = await previewQuery.limit(MAX_ROWS);
+        
+        if (preview.error) {
+          log.error('❌ [Mutate] Preview error:', {
+            message: preview.error.message,
+            details: preview.error.details,
+            hint: preview.error.hint,
+            code: preview.error.code,
+            fullError: JSON.stringify(preview.error, null, 2)
+          });
+          throw explainSchemaError(preview.error, schema);
+        }
+        
+        const matched = preview.count ?? 0;
+        log.info(`📊 [Mutate] ${action} would affect ${matched} rows`);
+        
+        if (dryRun) {
+          const previewRows = preview.data || [];
+          return respond(config, {
+            dryRun: true, 
+            action,
+            wouldAffect: matched,
+            rows: previewRows,
+            ...(matched > previewRows.length ? { truncated: true } : {})
+          }, { rowsKey: 'rows' });
+        }
+        
+        if (config.maxAffectedRows !== undefined && matched > config.maxAffectedRows) {
+          log.error(`❌ [Mutate] Refusing ${action}: ${matched} rows exceeds maxAffectedRows ${config.maxAffectedRows}`);
+          throw new Error(`Refusing to ${action} ${matched} rows (maxAffectedRows is ${config.maxAffectedRows}) - narrow the filter or pass confirmAll: true`);
+        }
+      }
+      
+      if (dryRun) {
+        // insert/upsert: nothing to look up, report the payload size
+        const payloadRows = Array.isArray(data) ? data.length : (data ? 1 : 0);
+        return respond(config, { dryRun: true, action, wouldAffect: payloadRows });
+      }
+      
+      // Array payloads for insert/upsert are split into batches, everything else is one request
+      let batches: any[] = [data];
+      
+      log.info(`🔀 [Mutate] Executing action: ${action} on table: ${table}`);
+      
+      let buildQuery: (chunk: any) => any;
+      switch (action) {
+        case 'insert':
+        case 'upsert':
+          if (!data || (Array.isArray(data) && data.length === 0)) {
+            log.error(`❌ [Mutate] ${action} attempted without data`);
+            throw new Error(`Data required for ${action}`);
+          }
+          if (Array.isArray(data)) {
+            batches = [];
+            for (let i = 0; i < data.length; i += batchSize) {
+              batches.push(data.slice(i, i + batchSize));
+            }
+          }
+          log.info(`📝 [Mutate] ${action === 'insert' ? 'Inserting' : 'Upserting'} data in ${batches.length} batch(es):`, { data });
+          buildQuery = action === 'insert'
+            ? chunk => client.from(table).insert(chunk, { count: 'exact' })
+            : chunk => client.from(table).upsert(chunk, {
+                count: 'exact',
+                ...(onConflict ? { onConflict } : {}),
+                ...(ignoreDuplicates ? { ignoreDuplicates } : {})
+              });
+          break;
+          
+        case 'update':
+          if (!data) {
+            log.error('❌ [Mutate] Update attempted without data');
+            throw new Error('Data required for update');
+          }
+          log.info('📝 [Mutate] Updating with data:', { data });
+          buildQuery = chunk => {
+            let updateQuery = client.from(table).update(chunk, { count: 'exact' });
+            
+            if (filters.length > 0) {
+              log.info('🔍 [Mutate] Applying update filters:', { where });
+              updateQuery = applyFilters(updateQuery, filters, 'Mutate');
+            } else {
+              log.warn('⚠️ [Mutate] Update without WHERE clause confirmed - updating ALL rows!');
+            }
+            return updateQuery;
+          };
+          break;
+          
+        case 'delete':
+          log.info('🗑️ [Mutate] Deleting from table:', table);
+          buildQuery = () => {
+            let deleteQuery = client.from(table).delete({ count: 'exact' });
+            
+            if (filters.length > 0) {
+              log.info('🔍 [Mutate] Applying delete filters:', { where });
+              deleteQuery = applyFilters(deleteQuery, filters, 'Mutate');
+            } else {
+              log.warn('⚠️ [Mutate] Delete without WHERE clause confirmed - deleting ALL rows!');
+            }
+            return deleteQuery;
+          };
+          break;
+      }
+      
+      // Journal before-images of rows about to be updated/deleted so the change can be reverted.
+      // Other roles may be allowed to write rows they cannot read, so their rows are not captured
+      // and the request goes out exactly as asked
+      const journaling = config.journal !== false;
+      const capturing = journaling && as === 'service';
+      let primaryKey: string[] = [];
+      let before: any[] | undefined;
+      if (capturing) {
+        primaryKey = await getPrimaryKey(apiUrl, projectId, config, schema, table).catch(error => {
+          log.warn(`⚠️ [Journal] Could not read primary key of ${schema}.${table}:`, error);
+          return [];
+        });
+        if (filtered) {
+          log.info(`📸 [Journal] Capturing rows before ${action}`);
+          let beforeQuery = client.from(table).select('*');
+          beforeQuery = applyFilters(beforeQuery, filters, 'Journal');
+          const snapshot = await beforeQuery.limit(JOURNAL_MAX_ROWS + 1);
+          if (snapshot.error) {
+            throw explainSchemaError(snapshot.error, schema);
+          }
+          before = snapshot.data || [];
+        }
+      }
+      const captureRows = returning || (capturing && action !== 'delete');
+      
+      let affectedCount = 0;
+      const rows: any[] = [];
+      const written: any[] = [];
+      const batchErrors: { batch: number, rows: string, error: ErrorCategory, message: string, code?: string, details?: string, hint?: string }[] = [];
+      let firstError: any = null;
+      
+      for (let i = 0; i < batches.length; i++) {
+        let query = buildQuery(batches[i]);
+        if (captureRows) {
+          query = query.select();
+        }
+        
+        const result = await query;
+        
+        if (result.error) {
+          log.error(`❌ [Mutate] Batch ${i + 1}/${batches.length} error:`, {
+            message: result.error.message,
+            details: result.error.details,
+            hint: result.error.hint,
+            code: result.error.code,
+            fullError: JSON.stringify(result.error, null, 2)
+          });
+          const explained = explainSchemaError(result.error, schema);
+          firstError = firstError || explained;
+          const first = i * batchSize;
+          const last = first + (Array.isArray(batches[i]) ? batches[i].length : 1) - 1;
+          batchErrors.push({
+            batch: i + 1,
+            rows: `${first}-${last}`,
+            error: classifyError(explained),
+            message: explained.message,
+            ...(explained.code ? { code: explained.code } : {}),
+            ...(explained.details ? { details: explained.details } : {}),
+            ...(explained.hint ? { hint: explained.hint } : {})
+          });
+          continue;
+        }
+        
+        affectedCount += result.count ?? result.data?.length ?? 0;
+        if (returning && rows.length < MAX_ROWS) {
+          rows.push(...(result.data || []).slice(0, MAX_ROWS - rows.length));
+        }
+        if (capturing && written.length <= JOURNAL_MAX_ROWS) {
+          written.push(...(result.data || []).slice(0, JOURNAL_MAX_ROWS + 1 - written.length));
+        }
+        log.info(`✅ [Mutate] Batch ${i + 1}/${batches.length} completed`);
+      }
+      
+      // Nothing was written - surface the error the same way as a single request
+      if (batchErrors.length === batches.length) {
+        throw firstError;
+      }
+      
+      log.info(`✅ [Mutate] Operation ${batchErrors.length > 0 ? 'partially ' : ''}successful, affected rows: ${affectedCount}`);
+      
+      let journalId: string | undefined;
+      if (journaling && affectedCount > 0) {
+        const tooLarge = (before?.length ?? 0) > JOURNAL_MAX_ROWS || written.length > JOURNAL_MAX_ROWS;
+        const note = !capturing ? `rows are not captured when running as ${as}`
+          : action === 'upsert' ? 'upsert does not capture before-images'
+          : primaryKey.length === 0 ? 'table has no primary key'
+          : tooLarge ? `more than ${JOURNAL_MAX_ROWS} rows affected`
+          : undefined;
+        journalId = await recordMutation(config, {
+          project: projectId,
+          schema,
+          table,
+          action,
+          as,
+          ...(filtered ? { where } : {}),
+          primaryKey,
+          ...(before ? { before: before.slice(0, JOURNAL_MAX_ROWS) } : {}),
+          ...(capturing && action !== 'delete' ? { after: written.slice(0, JOURNAL_MAX_ROWS) } : {}),
+          rows: affectedCount,
+          revertible: !note,
+          ...(note ? { note } : {})
+        });
+      }
+      
+      if (returning && affectedCount > rows.length) {
+        log.info(`📊 [Mutate] Returning first ${rows.length} of ${affectedCount} rows`);
+      }
+      
+      return respond(config, {
+        success: batchErrors.length === 0, 
+        affected: affectedCount,
+        ...(returning ? { rows } : {}),
+        ...(returning && affectedCount > rows.length ? { truncated: true } : {}),
+        ...(batches.length > 1 ? { batches: batches.length } : {}),
+        ...(batchErrors.length > 0 ? { failedBatches: batchErrors } : {}),
+        ...(journalId ? { journalId } : {})
+      }, { rowsKey: 'rows' });
+    } catch (error: any) {
+      log.error('❌ [Mutate] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('mutate', error);
+    }
+  }));
+
+  // Tool 3: Storage - File operations
+  server.registerTool("storage", {
+    title: "Files",
+    description: "Manage storage files and buckets",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum([
+        'upload', 'download', 'delete', 'list', 'signedUrl', 'signedUploadUrl', 'move', 'copy', 'publicUrl',
+        'listBuckets', 'createBucket', 'updateBucket', 'emptyBucket', 'deleteBucket'
+      ]).describe("Operation"),
+      bucket: z.string().optional().describe("Storage bucket (not needed for listBuckets)"),
+      path: z.string().optional().describe("File path (folder prefix ending in / for delete)"),
+      data: z.string().optional().describe("File data (base64)"),
+      contentType: z.string().optional().describe("Upload content type (default from extension)"),
+      upsert: z.boolean().optional().describe("Overwrite an existing file"),
+      cacheControl: z.string().optional().describe("Cache-Control max-age in seconds"),
+      destination: z.string().optional().describe("Target path for move/copy"),
+      destinationBucket: z.string().optional().describe("Target bucket for move/copy"),
+      expiresIn: z.number().optional().describe("Signed URL lifetime in seconds (default 3600)"),
+      recursive: z.boolean().optional().describe("List files in all subfolders"),
+      search: z.string().optional().describe("List: file name contains"),
+      sortBy: z.object({
+        column: z.enum(['name', 'created_at', 'updated_at', 'last_accessed_at']),
+        order: z.enum(['asc', 'desc']).optional()
+      }).optional().describe("List sort order"),
+      offset: z.number().optional().describe("List: entries to skip"),
+      limit: z.number().optional().describe(`List: entries to return (max ${MAX_ROWS})`),
+      public: z.boolean().optional().describe("Bucket is public"),
+      fileSizeLimit: z.union([z.number(), z.string()]).optional().describe("Bucket max file size, bytes or e.g. '5MB'"),
+      allowedMimeTypes: z.array(z.string()).optional().describe("Bucket allowed MIME types, e.g. ['image/*']"),
+      confirmAll: z.boolean().optional().describe("Allow delete with the root prefix /"),
+      as: roleSchema.optional().describe("Run as service (default), anon or user:<id|email>")
+    }
+  }, withRequestLog('storage', async ({ projectUrl, action, bucket = '', path, data, contentType, upsert = false, cacheControl, destination, destinationBucket, expiresIn = 3600, recursive = false, search, sortBy, offset = 0, limit = MAX_ROWS, public: isPublic, fileSizeLimit, allowedMimeTypes, confirmAll = false, as = 'service' }) => {
+    log.info('🔵 [Storage] Started with params:', {
+      projectUrl,
+      action,
+      bucket,
+      path: path || 'root',
+      hasData: !!data,
+      dataLength: data ? data.length : 0,
+      contentType: contentType || 'auto',
+      upsert,
+      destination: destination || 'none',
+      recursive,
+      as
+    });
+    
+    try {
+      if (!bucket && action !== 'listBuckets') {
+        log.error('❌ [Storage] Missing bucket');
+        throw new Error('Bucket required');
+      }
+      
+      // Resolve the project, enforce policy, then get the pooled client
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const writeActions = ['upload', 'delete', 'signedUploadUrl', 'move', 'copy', 'createBucket', 'updateBucket', 'emptyBucket', 'deleteBucket'];
+      const denied = checkPolicy(config, projectId, { write: writeActions.includes(action) });
+      if (denied) {
+        return policyDenied('storage', denied);
+      }
+      const client = await getRoleClient(apiUrl, projectId, config, 'public', as);
+      log.info(as === 'service' ? '🔓 [Storage] Using service role key - bypassing RLS' : `🔒 [Storage] Running as ${as} - RLS applies`);
+      
+      log.info(`🔀 [Storage] Executing action: ${action} on bucket: ${bucket}`);
+      
+      switch (action) {
+        case 'upload':
+          if (!path || !data) {
+            log.error('❌ [Storage] Upload missing required params:', { path, hasData: !!data });
+            throw new Error('Path and data required');
+          }
+          const uploadType = contentType || mimeTypeFromPath(path) || 'application/octet-stream';
+          log.info(`📤 [Storage] Uploading file to: ${bucket}/${path} (${uploadType}${upsert ? ', upsert' : ''})`);
+          log.info(`📊 [Storage] File size (base64): ${data.length} characters`);
+          
+          const uploadResult = await client.storage
+            .from(bucket)
+            .upload(path, Buffer.from(data, 'base64'), {
+              contentType: uploadType,
+              upsert,
+              ...(cacheControl ? { cacheControl } : {})
+            });
+            
+          if (uploadResult.error) {
+            log.error('❌ [Storage] Upload error:', {
+              message: uploadResult.error.message,
+              statusCode: uploadResult.error.statusCode,
+              fullError: JSON.stringify(uploadResult.error, null, 2)
+            });
+            throw uploadResult.error;
+          }
+          
+          log.info('✅ [Storage] Upload successful:', path);
+          return { 
+            content: [{
+              type: "text",
+              text: `Uploaded: ${path}`
+            }]
+          };
+          
+        case 'download':
+          if (!path) {
+            log.error('❌ [Storage] Download missing path');
+            throw new Error('Path required');
+          }
+          log.info(`📥 [Storage] Downloading file from: ${bucket}/${path}`);
+          await assertStoredSize(client.storage.from(bucket), path, STORAGE_MAX_DOWNLOAD_BYTES, 'use signedUrl instead');
+          
+          const { data: file, error: downloadError } = await client.storage
+            .from(bucket)
+            .download(path);
+            
+          if (downloadError) {
+            log.error('❌ [Storage] Download error:', {
+              message: downloadError.message,
+              statusCode: downloadError.statusCode,
+              fullError: JSON.stringify(downloadError, null, 2)
+            });
+            throw downloadError;
+          }
+          
+          const bytes = Buffer.from(await file.arrayBuffer());
+          const reportedType = file.type && file.type !== 'application/octet-stream' ? file.type : undefined;
+          const fileType = reportedType || mimeTypeFromPath(path) || 'application/octet-stream';
+          log.info(`✅ [Storage] Download successful, file size: ${bytes.length} bytes (${fileType})`);
+          
+          if (bytes.length > STORAGE_MAX_DOWNLOAD_BYTES) {
+            throw new Error(`File is ${bytes.length} bytes, over the ${STORAGE_MAX_DOWNLOAD_BYTES} byte download limit - use signedUrl instead`);
+          }
+          
+          // Text comes back as-is (within the response budget), images as MCP image content,
+          // everything else as base64
+          if (isTextMimeType(fileType)) {
+            return respond(config, bytes.toString('utf8'));
+          }
+          
+          if (fileType.startsWith('image/')) {
+            return { 
+              content: [{
+                type: "image",
+                data: bytes.toString('base64'),
+                mimeType: fileType
+              }]
+            };
+          }
+          
+          // Cutting base64 would corrupt the file, so files over the budget are refused instead
+          const encoded = JSON.stringify({
+            path, 
+            contentType: fileType, 
+            size: bytes.length, 
+            base64: bytes.toString('base64') 
+          }, null, 2);
+          const maxChars = config.maxResponseChars ?? RESPONSE_MAX_CHARS;
+          if (encoded.length > maxChars) {
+            throw categorizedError('validation', `File is ${bytes.length} bytes (${encoded.length} chars as base64), over the ${maxChars} char response budget - use signedUrl instead`);
+          }
+          return { 
+            content: [{
+              type: "text",
+              text: encoded
+            }]
+          };
+          
+        case 'delete':
+          if (!path) {
+            log.error('❌ [Storage] Delete missing path');
+            throw new Error('Path required');
+          }
+          
+          // A trailing slash deletes everything under the folder prefix
+          let deletePaths = [path];
+          if (path.endsWith('/')) {
+            if (path.replace(/^\/+/, '') === '' && !confirmAll) {
+              log.warn(`⚠️ [Storage] Refusing to delete everything in bucket: ${bucket}`);
+              throw new Error(`Refusing to delete every file in "${bucket}" - pass a folder prefix, or confirmAll: true`);
+            }
+            log.info(`🗑️ [Storage] Collecting files under prefix: ${bucket}/${path}`);
+            const { entries } = await listStorageEntries(client.storage.from(bucket), path, {
+              recursive: true,
+              offset: 0,
+              limit: Infinity
+            });
+            deletePaths = entries.map(entry => entry.name);
+          }
+          log.info(`🗑️ [Storage] Deleting ${deletePaths.length} file(s) from: ${bucket}/${path}`);
+          
+          for (let i = 0; i < deletePaths.length; i += STORAGE_REMOVE_BATCH) {
+            const { error: deleteError } = await client.storage
+              .from(bucket)
+              .remove(deletePaths.slice(i, i + STORAGE_REMOVE_BATCH));
+              
+            if (deleteError) {
+              log.error('❌ [Storage] Delete error:', {
+                message: deleteError.message,
+                statusCode: deleteError.statusCode,
+                deletedBefore: i,
+                fullError: JSON.stringify(deleteError, null, 2)
+              });
+              throw deleteError;
+            }
+          }
+          
+          log.info('✅ [Storage] Delete successful:', path);
+          return { 
+            content: [{
+              type: "text",
+              text: path.endsWith('/') ? `Deleted ${deletePaths.length} files under: ${path}` : `Deleted: ${path}`
+            }]
+          };
+          
+        case 'list':
+          const listPath = path || '';
+          const pageSize = Math.min(Math.max(1, limit), MAX_ROWS);
+          log.info(`📂 [Storage] Listing files in: ${bucket}/${listPath || 'root'}${recursive ? ' (recursive)' : ''}`);
+          
+          let listing;
+          try {
+            listing = await listStorageEntries(client.storage.from(bucket), listPath, {
+              recursive,
+              search,
+              sortBy,
+              offset,
+              limit: pageSize
+            });
+          } catch (listError: any) {
+            log.error('❌ [Storage] List error:', {
+              message: listError?.message,
+              statusCode: listError?.statusCode,
+              fullError: JSON.stringify(listError, null, 2)
+            });
+            throw listError;
+          }
+          
+          log.info(`✅ [Storage] List successful, returned ${listing.entries.length} entries`);
+          
+          return respond(config, {
+            files: listing.entries,
+            ...(listing.more ? { nextOffset: offset + listing.entries.length } : {})
+          }, { rowsKey: 'files', continuation: kept => ({ nextOffset: offset + kept.length }) });
+          
+        case 'listBuckets':
+          log.info('📋 [Storage] Listing buckets...');
+          const { data: buckets, error: bucketsError } = await client.storage.listBuckets();
+          
+          if (bucketsError) {
+            log.error('❌ [Storage] List buckets error:', {
+              message: bucketsError.message,
+              fullError: JSON.stringify(bucketsError, null, 2)
+            });
+            throw bucketsError;
+          }
+          
+          log.info(`✅ [Storage] Found ${buckets.length} buckets`);
+          return respond(config, buckets.slice(0, MAX_ROWS).map(b => ({
+            name: b.name,
+            public: b.public,
+            ...(b.file_size_limit ? { fileSizeLimit: b.file_size_limit } : {}),
+            ...(b.allowed_mime_types ? { allowedMimeTypes: b.allowed_mime_types } : {})
+          })));
+          
+        case 'createBucket':
+        case 'updateBucket':
+          let bucketPublic = isPublic;
+          if (action === 'updateBucket' && bucketPublic === undefined) {
+            // updateBucket always sets the public flag, so keep the current one
+            const { data: current, error: currentError } = await client.storage.getBucket(bucket);
+            if (currentError) {
+              throw currentError;
+            }
+            bucketPublic = current.public;
+          }
+          log.info(`🪣 [Storage] ${action === 'createBucket' ? 'Creating' : 'Updating'} bucket: ${bucket}`, { public: !!bucketPublic, fileSizeLimit, allowedMimeTypes });
+          
+          const bucketOptions = {
+            public: !!bucketPublic,
+            ...(fileSizeLimit !== undefined ? { fileSizeLimit } : {}),
+            ...(allowedMimeTypes ? { allowedMimeTypes } : {})
+          };
+          const { error: bucketError } = action === 'createBucket'
+            ? await client.storage.createBucket(bucket, bucketOptions)
+            : await client.storage.updateBucket(bucket, bucketOptions);
+            
+          if (bucketError) {
+            log.error(`❌ [Storage] ${action} error:`, {
+              message: bucketError.message,
+              fullError: JSON.stringify(bucketError, null, 2)
+            });
+            throw bucketError;
+          }
+          
+          log.info(`✅ [Storage] ${action} successful:`, bucket);
+          return { 
+            content: [{
+              type: "text",
+              text: `${action === 'createBucket' ? 'Created' : 'Updated'} bucket: ${bucket}`
+            }]
+          };
+          
+        case 'emptyBucket':
+        case 'deleteBucket':
+          log.info(`🗑️ [Storage] ${action === 'emptyBucket' ? 'Emptying' : 'Deleting'} bucket: ${bucket}`);
+          const { error: removeBucketError } = action === 'emptyBucket'
+            ? await client.storage.emptyBucket(bucket)
+            : await client.storage.deleteBucket(bucket);
+            
+          if (removeBucketError) {
+            log.error(`❌ [Storage] ${action} error:`, {
+              message: removeBucketError.message,
+              fullError: JSON.stringify(removeBucketError, null, 2)
+            });
+            throw removeBucketError;
+          }
+          
+          log.info(`✅ [Storage] ${action} successful:`, bucket);
+          return { 
+            content: [{
+              type: "text",
+              text: `${action === 'emptyBucket' ? 'Emptied' : 'Deleted'} bucket: ${bucket}`
+            }]
+          };
+          
+        case 'signedUrl':
+          if (!path) {
+            log.error('❌ [Storage] Signed URL missing path');
+            throw new Error('Path required');
+          }
+          log.info(`🔗 [Storage] Creating signed URL for: ${bucket}/${path} (${expiresIn}s)`);
+          
+          const { data: signed, error: signedError } = await client.storage
+            .from(bucket)
+            .createSignedUrl(path, expiresIn);
+            
+          if (signedError) {
+            log.error('❌ [Storage] Signed URL error:', {
+              message: signedError.message,
+              fullError: JSON.stringify(signedError, null, 2)
+            });
+            throw signedError;
+          }
+          
+          log.info('✅ [Storage] Signed URL created:', path);
+          return respond(config, { url: signed.signedUrl, expiresIn });
+          
+        case 'signedUploadUrl':
+          if (!path) {
+            log.error('❌ [Storage] Signed upload URL missing path');
+            throw new Error('Path required');
+          }
+          log.info(`🔗 [Storage] Creating signed upload URL for: ${bucket}/${path}`);
+          
+          const { data: signedUpload, error: signedUploadError } = await client.storage
+            .from(bucket)
+            .createSignedUploadUrl(path, { upsert });
+            
+          if (signedUploadError) {
+            log.error('❌ [Storage] Signed upload URL error:', {
+              message: signedUploadError.message,
+              fullError: JSON.stringify(signedUploadError, null, 2)
+            });
+            throw signedUploadError;
+          }
+          
+          log.info('✅ [Storage] Signed upload URL created:', path);
+          return respond(config, { url: signedUpload.signedUrl, token: signedUpload.token, path: signedUpload.path });
+          
+        case 'move':
+        case 'copy':
+          if (!path || !destination) {
+            log.error(`❌ [Storage] ${action} missing required params:`, { path, destination });
+            throw new Error('Path and destination required');
+          }
+          const targetBucket = destinationBucket || bucket;
+          log.info(`📦 [Storage] ${action === 'move' ? 'Moving' : 'Copying'} ${bucket}/${path} to ${targetBucket}/${destination}`);
+          
+          const transferOptions = destinationBucket ? { destinationBucket } : undefined;
+          const { error: transferError } = action === 'move'
+            ? await client.storage.from(bucket).move(path, destination, transferOptions)
+            : await client.storage.from(bucket).copy(path, destination, transferOptions);
+            
+          if (transferError) {
+            log.error(`❌ [Storage] ${action} error:`, {
+              message: transferError.message,
+              fullError: JSON.stringify(transferError, null, 2)
+            });
+            throw transferError;
+          }
+          
+          log.info(`✅ [Storage] ${action} successful:`, destination);
+          return { 
+            content: [{
+              type: "text",
+              text: `${action === 'move' ? 'Moved' : 'Copied'}: ${path} -> ${targetBucket}/${destination}`
+            }]
+          };
+          
+        case 'publicUrl':
+          if (!path) {
+            log.error('❌ [Storage] Public URL missing path');
+            throw new Error('Path required');
+          }
+          
+          // Only works for public buckets - the URL is built locally without a request
+          const { data: publicUrl } = client.storage.from(bucket).getPublicUrl(path);
+          log.info('✅ [Storage] Public URL built:', publicUrl.publicUrl);
+          
+          return { 
+            content: [{
+              type: "text",
+              text: publicUrl.publicUrl
+            }]
+          };
+      }
+    } catch (error: any) {
+      log.error('❌ [Storage] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        statusCode: error?.statusCode,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('storage', error);
+    }
+  }));
+
+  // Tool 4: Auth - User management  
+  server.registerTool("auth", {
+    title: "Users",
+    description: "Manage users",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum([
+        'list', 'get', 'create', 'update', 'delete', 'invite', 'generateLink',
+        'ban', 'unban', 'listFactors', 'deleteFactor'
+      ]).describe("Operation"),
+      email: z.string().optional().describe("User email"),
+      password: z.string().optional().describe("User password"),
+      id: z.string().optional().describe("User ID"),
+      page: z.number().optional().describe("List page (default 1)"),
+      perPage: z.number().optional().describe(`List page size (max ${MAX_ROWS})`),
+      userMetadata: z.record(z.any()).optional().describe("user_metadata for create/update/invite"),
+      appMetadata: z.record(z.any()).optional().describe("app_metadata for create/update"),
+      role: z.string().optional().describe("Database role for update"),
+      linkType: z.enum(['magiclink', 'recovery', 'signup', 'invite']).optional().describe("generateLink type"),
+      redirectTo: z.string().optional().describe("Redirect URL for invite/generateLink"),
+      banDuration: z.string().optional().describe("Ban length, e.g. '24h' (default: indefinitely)"),
+      factorId: z.string().optional().describe("MFA factor ID for deleteFactor")
+    }
+  }, withRequestLog('auth', async ({ projectUrl, action, email, password, id, page = 1, perPage = MAX_ROWS, userMetadata, appMetadata, role, linkType = 'magiclink', redirectTo, banDuration, factorId }) => {
+    log.info('🔵 [Auth] Started with params:', {
+      projectUrl,
+      action,
+      email: email || 'none',
+      hasPassword: !!password,
+      id: id || 'none',
+      page,
+      perPage
+    });
+    
+    try {
+      // Resolve the project, enforce policy, then get the pooled client
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: !['list', 'get', 'listFactors'].includes(action) });
+      if (denied) {
+        return policyDenied('auth', denied);
+      }
+      const client = await getProjectClient(apiUrl, projectId, config);
+      log.info('🔓 [Auth] Using service role key - full admin access');
+      
+      // Actions on an existing user accept either id or email
+      const resolveUserId = async () => {
+        if (id) {
+          return id;
+        }
+        if (!email) {
+          log.error(`❌ [Auth] ${action} missing user ID or email`);
+          throw new Error('User ID or email required');
+        }
+        log.info(`🔍 [Auth] Looking up user by email: ${email}`);
+        return (await findUserByEmail(client.auth.admin, email)).id;
+      };
+      
+      log.info(`🔀 [Auth] Executing action: ${action}`);
+      
+      switch (action) {
+        case 'list':
+          const pageSize = Math.min(Math.max(1, perPage), MAX_ROWS);
+          log.info(`📋 [Auth] Listing users, page ${page} (${pageSize} per page)...`);
+          const { data: listData, error: listError } = await client.auth.admin.listUsers({ page, perPage: pageSize });
+          
+          if (listError) {
+            log.error('❌ [Auth] List users error:', {
+              message: listError.message,
+              status: listError.status,
+              fullError: JSON.stringify(listError, null, 2)
+            });
+            throw listError;
+          }
+          
+          const users = listData?.users || [];
+          log.info(`✅ [Auth] Found ${users.length} users on page ${page}`);
+          
+          // Return minimal user info
+          const userList = users.map(u => ({
+            id: u.id,
+            email: u.email,
+            created: u.created_at
+          }));
+          
+          const pageInfo = listData as { nextPage?: number | null, total?: number };
+          
+          return respond(config, {
+            users: userList, 
+            page,
+            ...(pageInfo.nextPage ? { nextPage: pageInfo.nextPage } : {}),
+            ...(pageInfo.total ? { total: pageInfo.total } : {})
+          }, { rowsKey: 'users' });
+          
+        case 'get':
+          let user;
+          if (id) {
+            log.info(`🔍 [Auth] Getting user by ID: ${id}`);
+            const { data: userData, error: getError } = await client.auth.admin.getUserById(id);
+            if (getError) {
+              log.error('❌ [Auth] Get user error:', {
+                message: getError.message,
+                status: getError.status,
+                fullError: JSON.stringify(getError, null, 2)
+              });
+              throw getError;
+            }
+            user = userData.user;
+          } else if (email) {
+            log.info(`🔍 [Auth] Looking up user by email: ${email}`);
+            user = await findUserByEmail(client.auth.admin, email);
+          } else {
+            log.error('❌ [Auth] Get user missing ID or email');
+            throw new Error('User ID or email required');
+          }
+          
+          log.info(`✅ [Auth] Found user: ${user.id}`);
+          return respond(config, describeUser(user));
+          
+        case 'create':
+          if (!email || !password) {
+            log.error('❌ [Auth] Create user missing required params:', { 
+              hasEmail: !!email, 
+              hasPassword: !!password 
+            });
+            throw new Error('Email and password required');
+          }
+          
+          log.info(`👤 [Auth] Creating user with email: ${email}`);
+          const { data: newUser, error: createError } = await client.auth.admin.createUser({
+            email,
+            password,
+            email_confirm: true,
+            ...(userMetadata ? { user_metadata: userMetadata } : {}),
+            ...(appMetadata ? { app_metadata: appMetadata } : {})
+          });
+          
+          if (createError) {
+            log.error('❌ [Auth] Create user error:', {
+              message: createError.message,
+              status: createError.status,
+              code: createError.code,
+              fullError: JSON.stringify(createError, null, 2)
+            });
+            throw createError;
+          }
+          
+          const newUserId = newUser.user?.id;
+          log.info(`✅ [Auth] User created successfully with ID: ${newUserId}`);
+          
+          return { 
+            content: [{
+              type: "text",
+              text: `Created user: ${newUserId}`
+            }]
+          };
+          
+        case 'delete':
+          const deleteUserId = await resolveUserId();
+          
+          log.info(`🗑️ [Auth] Deleting user with ID: ${deleteUserId}`);
+          const { error: deleteError } = await client.auth.admin.deleteUser(deleteUserId);
+          
+          if (deleteError) {
+            log.error('❌ [Auth] Delete user error:', {
+              message: deleteError.message,
+              status: deleteError.status,
+              code: deleteError.code,
+              fullError: JSON.stringify(deleteError, null, 2)
+            });
+            throw deleteError;
+          }
+          
+          log.info(`✅ [Auth] User deleted successfully: ${deleteUserId}`);
+          
+          return { 
+            content: [{
+              type: "text",
+              text: `Deleted user: ${deleteUserId}`
+            }]
+          };
+          
+        case 'update':
+          // Without id, email finds the user instead of being the new address
+          const attributes = {
+            ...(id && email ? { email } : {}),
+            ...(password ? { password } : {}),
+            ...(userMetadata ? { user_metadata: userMetadata } : {}),
+            ...(appMetadata ? { app_metadata: appMetadata } : {}),
+            ...(role ? { role } : {})
+          };
+          if (Object.keys(attributes).length === 0) {
+            log.error('❌ [Auth] Update user without changes');
+            throw new Error('Nothing to update - pass email, password, userMetadata, appMetadata or role');
+          }
+          
+          const updateUserId = await resolveUserId();
+          log.info(`✏️ [Auth] Updating user ${updateUserId}:`, Object.keys(attributes));
+          const { data: updated, error: updateError } = await client.auth.admin.updateUserById(updateUserId, attributes);
+          
+          if (updateError) {
+            log.error('❌ [Auth] Update user error:', {
+              message: updateError.message,
+              status: updateError.status,
+              code: updateError.code,
+              fullError: JSON.stringify(updateError, null, 2)
+            });
+            throw updateError;
+          }
+          
+          log.info(`✅ [Auth] User updated successfully: ${updateUserId}`);
+          return respond(config, describeUser(updated.user));
+          
+        case 'invite':
+          if (!email) {
+            log.error('❌ [Auth] Invite missing email');
+            throw new Error('Email required');
+          }
+          
+          log.info(`✉️ [Auth] Inviting user: ${email}`);
+          const { data: invited, error: inviteError } = await client.auth.admin.inviteUserByEmail(email, {
+            ...(userMetadata ? { data: userMetadata } : {}),
+            ...(redirectTo ? { redirectTo } : {})
+          });
+          
+          if (inviteError) {
+            log.error('❌ [Auth] Invite user error:', {
+              message: inviteError.message,
+              status: inviteError.status,
+              code: inviteError.code,
+              fullError: JSON.stringify(inviteError, null, 2)
+            });
+            throw inviteError;
+          }
+          
+          log.info(`✅ [Auth] Invite sent, user ID: ${invited.user?.id}`);
+          return { 
+            content: [{
+              type: "text",
+              text: `Invited user: ${invited.user?.id}`
+            }]
+          };
+          
+        case 'generateLink':
+          if (!email) {
+            log.error('❌ [Auth] Generate link missing email');
+            throw new Error('Email required');
+          }
+          if (linkType === 'signup' && !password) {
+            log.error('❌ [Auth] Signup link missing password');
+            throw new Error('Password required for signup links');
+          }
+          
+          log.info(`🔗 [Auth] Generating ${linkType} link for: ${email}`);
+          const { data: link, error: linkError } = await client.auth.admin.generateLink({
+            type: linkType,
+            email,
+            ...(linkType === 'signup' ? { password } : {}),
+            options: {
+              ...(redirectTo ? { redirectTo } : {}),
+              ...(userMetadata && linkType !== 'recovery' ? { data: userMetadata } : {})
+            }
+          } as Parameters<AuthAdminApi['generateLink']>[0]);
+          
+          if (linkError) {
+            log.error('❌ [Auth] Generate link error:', {
+              message: linkError.message,
+              status: linkError.status,
+              code: linkError.code,
+              fullError: JSON.stringify(linkError, null, 2)
+            });
+            throw linkError;
+          }
+          
+          log.info(`✅ [Auth] ${linkType} link generated for user: ${link.user?.id}`);
+          return respond(config, {
+            type: linkType, 
+            link: link.properties?.action_link, 
+            userId: link.user?.id 
+          });
+          
+        case 'ban':
+        case 'unban':
+          const banUserId = await resolveUserId();
+          // GoTrue has no permanent ban, so "indefinitely" is 100 years
+          const duration = action === 'unban' ? 'none' : (banDuration || '876000h');
+          
+          log.info(`🚫 [Auth] ${action === 'ban' ? `Banning user ${banUserId} for ${duration}` : `Unbanning user ${banUserId}`}`);
+          const { data: banned, error: banError } = await client.auth.admin.updateUserById(banUserId, { ban_duration: duration });
+          
+          if (banError) {
+            log.error(`❌ [Auth] ${action} user error:`, {
+              message: banError.message,
+              status: banError.status,
+              code: banError.code,
+              fullError: JSON.stringify(banError, null, 2)
+            });
+            throw banError;
+          }
+          
+          log.info(`✅ [Auth] User ${action === 'ban' ? 'banned' : 'unbanned'}: ${banUserId}`);
+          return respond(config, { id: banUserId, bannedUntil: banned.user?.banned_until || null });
+          
+        case 'listFactors':
+          const factorUserId = await resolveUserId();
+          
+          log.info(`🔐 [Auth] Listing MFA factors for user: ${factorUserId}`);
+          const { data: factorData, error: factorsError } = await client.auth.admin.mfa.listFactors({ userId: factorUserId });
+          
+          if (factorsError) {
+            log.error('❌ [Auth] List factors error:', {
+              message: factorsError.message,
+              status: factorsError.status,
+              fullError: JSON.stringify(factorsError, null, 2)
+            });
+            throw factorsError;
+          }
+          
+          log.info(`✅ [Auth] Found ${factorData.factors.length} factors`);
+          return respond(config, factorData.factors.map(f => ({
+            id: f.id,
+            type: f.factor_type,
+            status: f.status,
+            name: f.friendly_name,
+            created: f.created_at
+          })));
+          
+        case 'deleteFactor':
+          if (!factorId) {
+            log.error('❌ [Auth] Delete factor missing factor ID');
+            throw new Error('Factor ID required');
+          }
+          const factorOwnerId = await resolveUserId();
+          
+          log.info(`🗑️ [Auth] Deleting MFA factor ${factorId} for user: ${factorOwnerId}`);
+          const { error: deleteFactorError } = await client.auth.admin.mfa.deleteFactor({ id: factorId, userId: factorOwnerId });
+          
+          if (deleteFactorError) {
+            log.error('❌ [Auth] Delete factor error:', {
+              message: deleteFactorError.message,
+              status: deleteFactorError.status,
+              fullError: JSON.stringify(deleteFactorError, null, 2)
+            });
+            throw deleteFactorError;
+          }
+          
+          log.info(`✅ [Auth] Factor deleted: ${factorId}`);
+          return { 
+            content: [{
+              type: "text",
+              text: `Deleted factor: ${factorId}`
+            }]
+          };
+      }
+    } catch (error: any) {
+      log.error('❌ [Auth] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        status: error?.status,
+        code: error?.code,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('auth', error);
+    }
+  }));
 
-  // Tool 1: Select - Simple table query
-  server.registerTool("select", {
-    title: "Get data",
-    description: "Select data from a table",
+  // Tool 5: Schema - Database introspection
+  server.registerTool("schema", {
+    title: "Inspect schema",
+    description: "List schemas/tables or describe a table",
     inputSchema: {
-      projectUrl: z.string().describe("Supabase project URL"),
-      table: z.string().describe("Table name"),
-      where: z.record(z.any()).optional().describe("Filter conditions"),
-      limit: z.number().optional().describe("Maximum rows to return")
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum(['schemas', 'tables', 'describe']).describe("Operation"),
+      schema: z.string().optional().describe("Database schema (default from config, else public)"),
+      table: z.string().optional().describe("Table name for describe")
     }
-  }, async ({ projectUrl, table, where = {}, limit = 100 }) => {
-    console.log('🔵 [Select] Started with params:', { projectUrl, table, where, limit });
+  }, withRequestLog('schema', async ({ projectUrl, action, schema = config.defaultSchema || 'public', table }) => {
+    log.info('🔵 [Schema] Started with params:', { projectUrl, action, schema, table: table || 'none' });
     
     try {
-      // Extract project ID and get service role key
-      const projectId = extractProjectId(projectUrl);
-      const { serviceRoleKey } = await getProjectKeys(projectId, config.accessToken);
-      
-      console.log('🌐 [Select] Creating Supabase client for:', projectUrl);
-      console.log('🔓 [Select] Using service role key - bypassing RLS');
-      const client = createClient(projectUrl, serviceRoleKey, {
-        auth: { 
-          persistSession: false,
-          autoRefreshToken: false,
-          detectSessionInUrl: false
-        },
-        db: {
-          schema: 'public'
-        },
-        global: {
-          headers: {
-            'x-bypass-rls': 'true'  // Explicit RLS bypass with service role
+      const { projectId } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: false, schema, tables: table ? [table] : [] });
+      if (denied) {
+        return policyDenied('schema', denied);
+      }
+      
+      log.info(`🔀 [Schema] Executing action: ${action}`);
+      
+      switch (action) {
+        case 'schemas':
+          log.info('📋 [Schema] Listing schemas...');
+          const schemaRows = await runManagementQuery(projectId, managementToken(config, projectId), `
+            select nspname as name
+            from pg_namespace
+            where nspname not in ('information_schema', 'pg_catalog', 'pg_toast')
+              and nspname not like 'pg_temp_%' and nspname not like 'pg_toast_temp_%'
+            order by nspname`);
+          
+          log.info(`✅ [Schema] Found ${schemaRows.length} schemas`);
+          return respond(config, schemaRows.map(r => r.name));
+          
+        case 'tables':
+          log.info(`📋 [Schema] Listing tables in schema: ${schema}`);
+          const tableRows = await runManagementQuery(projectId, managementToken(config, projectId), `
+            select c.relname as name,
+              case c.relkind when 'v' then 'view' when 'm' then 'materialized view' when 'f' then 'foreign table' else 'table' end as kind,
+              greatest(c.reltuples, 0)::bigint as rows
+            from pg_class c
+            join pg_namespace n on n.oid = c.relnamespace
+            where n.nspname = ${sqlLiteral(schema)} and c.relkind in ('r', 'p', 'v', 'm', 'f')
+            order by c.relname`);
+          
+          // Tables hidden by the read rules are left out of the listing
+          const visibleTables = tableRows.filter(r => !checkPolicy(config, projectId, { write: false, schema, tables: [r.name] }));
+          log.info(`✅ [Schema] Found ${tableRows.length} tables, ${visibleTables.length} readable`);
+          
+          // "name": "kind ~rows" keeps the listing to one short line per table
+          const tableList: { [name: string]: string } = {};
+          visibleTables.forEach(r => {
+            tableList[r.name] = r.kind === 'table' ? `table ~${r.rows} rows` : r.kind;
+          });
+          
+          return respond(config, { schema, tables: tableList });
+          
+        case 'describe':
+          if (!table) {
+            log.error('❌ [Schema] Describe missing table');
+            throw new Error('Table required');
           }
-        }
+          log.info(`🔍 [Schema] Describing table: ${schema}.${table}`);
+          
+          const relation = `to_regclass(quote_ident(${sqlLiteral(schema)}) || '.' || quote_ident(${sqlLiteral(table)}))`;
+          const [description] = await runManagementQuery(projectId, managementToken(config, projectId), `
+            select
+              ${relation} is not null as found,
+              (select json_agg(json_build_object(
+                  'name', a.attname,
+                  'type', format_type(a.atttypid, a.atttypmod),
+                  'notNull', a.attnotnull,
+                  'default', pg_get_expr(d.adbin, d.adrelid)
+                ) order by a.attnum)
+                from pg_attribute a
+                left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum
+                where a.attrelid = ${relation} and a.attnum > 0 and not a.attisdropped) as columns,
+              (select json_agg(json_build_object('name', c.conname, 'type', c.contype, 'def', pg_get_constraintdef(c.oid)))
+                from pg_constraint c
+                where c.conrelid = ${relation} and c.contype in ('p', 'f', 'u')) as constraints,
+              (select json_agg(json_build_object('table', c.conrelid::regclass::text, 'def', pg_get_constraintdef(c.oid)))
+                from pg_constraint c
+                where c.confrelid = ${relation} and c.contype = 'f') as referenced_by,
+              (select json_agg(json_build_object('name', i.relname, 'def', pg_get_indexdef(x.indexrelid)))
+                from pg_index x
+                join pg_class i on i.oid = x.indexrelid
+                where x.indrelid = ${relation}) as indexes`);
+          
+          if (!description?.found) {
+            log.error(`❌ [Schema] Table not found: ${schema}.${table}`);
+            throw categorizedError('not_found', `Table "${table}" not found in schema "${schema}"`);
+          }
+          
+          // Compact "name": "type not null default x" column lines
+          const columnList: { [name: string]: string } = {};
+          (description.columns || []).forEach((c: any) => {
+            columnList[c.name] = `${c.type}${c.notNull ? ' not null' : ''}${c.default !== null ? ` default ${c.default}` : ''}`;
+          });
+          
+          const constraints: any[] = description.constraints || [];
+          const primaryKey = constraints.find(c => c.type === 'p')?.def.replace(/^PRIMARY KEY /, '') || null;
+          const unique = constraints.filter(c => c.type === 'u').map(c => c.def.replace(/^UNIQUE /, ''));
+          const foreignKeys = constraints.filter(c => c.type === 'f').map(c => c.def.replace(/^FOREIGN KEY /, ''));
+          const referencedBy = (description.referenced_by || []).map((r: any) => `${r.table} ${r.def.replace(/^FOREIGN KEY /, '')}`);
+          const indexes = (description.indexes || []).map((i: any) => `${i.name}: ${i.def.replace(/^CREATE (UNIQUE )?INDEX \S+ ON \S+ USING /, (_: string, u: string) => u ? 'unique ' : '')}`);
+          
+          log.info(`✅ [Schema] Described ${Object.keys(columnList).length} columns`);
+          
+          return respond(config, {
+            table: `${schema}.${table}`,
+            columns: columnList,
+            primaryKey,
+            ...(unique.length > 0 ? { unique } : {}),
+            ...(foreignKeys.length > 0 ? { foreignKeys } : {}),
+            ...(referencedBy.length > 0 ? { referencedBy } : {}),
+            ...(indexes.length > 0 ? { indexes } : {})
+          });
+      }
+    } catch (error: any) {
+      log.error('❌ [Schema] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
       });
       
-      console.log('📝 [Select] Building query for table:', table);
-      let query = client.from(table).select('*');
+      return toolError('schema', error);
+    }
+  }));
+
+  // Tool 6: RPC - Call Postgres functions
+  server.registerTool("rpc", {
+    title: "Call function",
+    description: "Call or list Postgres functions",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum(['call', 'list']).describe("Operation"),
+      fn: z.string().optional().describe("Function name for call"),
+      args: z.record(z.any()).optional().describe("Named arguments"),
+      schema: z.string().optional().describe("Database schema (default from config, else public)"),
+      get: z.boolean().optional().describe("Call via GET (read-only transaction)"),
+      as: roleSchema.optional().describe("Run as service (default), anon or user:<id|email>"),
+      format: outputFormatSchema.optional().describe("Result format: json, compact, csv or markdown (default from config)")
+    }
+  }, withRequestLog('rpc', async ({ projectUrl, action, fn, args = {}, schema = config.defaultSchema || 'public', get = false, as = 'service', format }) => {
+    log.info('🔵 [RPC] Started with params:', { projectUrl, action, fn: fn || 'none', args, schema, get, as });
+    
+    try {
+      // Resolve the project, enforce policy, then get the pooled client
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: action === 'call' && !get, schema, rawSql: action === 'call' });
+      if (denied) {
+        return policyDenied('rpc', denied);
+      }
+      
+      log.info(`🔀 [RPC] Executing action: ${action}`);
       
-      // Apply filters
-      const filterCount = Object.keys(where).length;
-      if (filterCount > 0) {
-        console.log('🔀 [Select] Applying filters:', where);
-        Object.entries(where).forEach(([key, value]) => {
-          console.log(`  🔍 [Select] Filter: ${key} = ${value}`);
-          query = query.eq(key, value);
+      if (action === 'list') {
+        log.info(`📋 [RPC] Listing functions in schema: ${schema}`);
+        const functionRows = await runManagementQuery(projectId, managementToken(config, projectId), `
+          select p.proname as name,
+            pg_get_function_identity_arguments(p.oid) as args,
+            pg_get_function_result(p.oid) as returns,
+            p.provolatile as volatility
+          from pg_proc p
+          join pg_namespace n on n.oid = p.pronamespace
+          where n.nspname = ${sqlLiteral(schema)} and p.prokind = 'f'
+          order by p.proname`);
+        
+        log.info(`✅ [RPC] Found ${functionRows.length} functions`);
+        
+        // "name(args)": "returns type [stable|immutable]" - one line per function
+        const functionList: { [signature: string]: string } = {};
+        functionRows.slice(0, MAX_ROWS).forEach(r => {
+          const volatility = r.volatility === 's' ? ' stable' : r.volatility === 'i' ? ' immutable' : '';
+          functionList[`${r.name}(${r.args})`] = `${r.returns}${volatility}`;
         });
-      } else {
-        console.log('🔀 [Select] No filters applied');
+        
+        if (functionRows.length > MAX_ROWS) {
+          log.info(`📊 [RPC] Returning first ${MAX_ROWS} of ${functionRows.length} functions`);
+        }
+        
+        return respond(config, { schema, functions: functionList }, { format });
+      }
+      
+      if (!fn) {
+        log.error('❌ [RPC] Call missing function name');
+        throw new Error('Function name required');
       }
       
-      // Apply limit
-      console.log('📊 [Select] Applying limit:', limit);
-      query = query.limit(limit);
+      const client = await getRoleClient(apiUrl, projectId, config, schema, as);
+      log.info(as === 'service' ? '🔓 [RPC] Using service role key - bypassing RLS' : `🔒 [RPC] Running as ${as} - RLS applies`);
       
-      console.log('⚡ [Select] Executing query...');
-      const { data, error } = await query;
+      log.info(`⚡ [RPC] Calling ${schema}.${fn} via ${get ? 'GET' : 'POST'}`);
+      const { data, error } = await client.rpc(fn, args, { get });
       
       if (error) {
-        console.error('❌ [Select] Query error:', {
+        log.error('❌ [RPC] Call error:', {
           message: error.message,
           details: error.details,
           hint: error.hint,
           code: error.code,
           fullError: JSON.stringify(error, null, 2)
         });
-        throw error;
+        throw explainSchemaError(error, schema);
       }
       
-      const resultCount = data?.length || 0;
-      console.log('✅ [Select] Query successful, returned rows:', resultCount);
+      // Set-returning functions get the same truncation as select
+      if (Array.isArray(data)) {
+        log.info(`✅ [RPC] Call successful, returned rows: ${data.length}`);
+        if (data.length > MAX_ROWS) {
+          log.info(`📊 [RPC] Returning first ${MAX_ROWS} of ${data.length} rows`);
+        }
+        return respond(config, {
+          data: data.slice(0, MAX_ROWS), 
+          count: data.length,
+          ...(data.length > MAX_ROWS ? { truncated: true } : {})
+        }, { format, rowsKey: 'data' });
+      }
       
-      return { 
-        content: [{
-          type: "text",
-          text: JSON.stringify({ 
-            data: data || [], 
-            count: resultCount 
-          }, null, 2)
-        }]
-      };
+      log.info('✅ [RPC] Call successful');
+      return respond(config, { data }, { format });
     } catch (error: any) {
-      console.error('❌ [Select] Fatal error:', {
+      log.error('❌ [RPC] Fatal error:', {
         name: error?.name,
         message: error?.message,
         stack: error?.stack,
         fullError: JSON.stringify(error, null, 2)
       });
       
-      // Better error message with actual details
-      const errorMessage = error?.message || 'Unknown error';
-      const errorDetails = error?.details || '';
-      const errorHint = error?.hint || '';
+      return toolError('rpc', error);
+    }
+  }));
+
+  // Tool 7: SQL - Raw queries through the Management API
+  server.registerTool("sql", {
+    title: "Run SQL",
+    description: "Run SQL (read-only unless write is set)",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      query: z.string().describe("SQL statement"),
+      write: z.boolean().optional().describe("Allow writes/DDL (needs allowSqlWrites)"),
+      timeoutMs: z.number().optional().describe(`Statement timeout (default ${SQL_TIMEOUT_MS})`),
+      maxRows: z.number().optional().describe(`Maximum rows to return (default ${MAX_ROWS})`),
+      format: outputFormatSchema.optional().describe("Result format: json, compact, csv or markdown (default from config)")
+    }
+  }, withRequestLog('sql', async ({ projectUrl, query, write = false, timeoutMs = SQL_TIMEOUT_MS, maxRows = MAX_ROWS, format }) => {
+    log.info('🔵 [SQL] Started with params:', { projectUrl, query, write, timeoutMs, maxRows, format });
+    
+    try {
+      const { projectId } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write, rawSql: true });
+      if (denied) {
+        return policyDenied('sql', denied);
+      }
+      
+      if (write && !config.allowSqlWrites) {
+        log.error('❌ [SQL] Write requested but allowSqlWrites is off');
+        throw new Error('SQL writes are disabled - set allowSqlWrites in the server config');
+      }
+      
+      const keyword = sqlKeyword(query);
+      if (!write && !READ_ONLY_SQL.includes(keyword)) {
+        log.error(`❌ [SQL] Rejected non read-only statement: ${keyword || 'unknown'}`);
+        throw new Error(`Only ${READ_ONLY_SQL.map(k => k.toUpperCase()).join('/')} statements run read-only - got ${keyword.toUpperCase() || 'an unknown statement'}. Pass write: true (requires allowSqlWrites) for other statements`);
+      }
+      
+      // Read-only calls also run in a read-only transaction, which catches writes hidden in CTEs or functions
+      const timeout = Math.max(1, Math.floor(timeoutMs));
+      log.info(`⚡ [SQL] Executing ${keyword.toUpperCase()} statement (${write ? 'read-write' : 'read-only'}, timeout ${timeout}ms)`);
+      const rows = await runManagementQuery(
+        projectId,
+        managementToken(config, projectId),
+        `set statement_timeout = ${timeout};\n${query}`,
+        { readOnly: !write }
+      );
       
-      throw new Error(`Select failed: ${errorMessage}${errorDetails ? ` - Details: ${errorDetails}` : ''}${errorHint ? ` - Hint: ${errorHint}` : ''}`);
+      const resultRows = Array.isArray(rows) ? rows : [];
+      const returned = resultRows.slice(0, Math.max(0, maxRows));
+      
+      log.info(`✅ [SQL] Query successful, returned rows: ${resultRows.length}`);
+      if (returned.length < resultRows.length) {
+        log.info(`📊 [SQL] Returning first ${returned.length} of ${resultRows.length} rows`);
+      }
+      
+      return respond(config, {
+        rows: returned, 
+        count: resultRows.length,
+        ...(returned.length < resultRows.length ? { truncated: true } : {})
+      }, { format, rowsKey: 'rows' });
+    } catch (error: any) {
+      log.error('❌ [SQL] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('sql', error);
     }
-  });
+  }));
 
-  // Tool 2: Mutate - Insert/Update/Delete
-  server.registerTool("mutate", {
-    title: "Change data",
-    description: "Insert, update or delete data",
+  // Tool 8: Refresh - Drop cached keys and clients for a project
+  server.registerTool("refresh", {
+    title: "Refresh keys",
+    description: "Re-fetch a project's API keys",
     inputSchema: {
-      projectUrl: z.string().describe("Supabase project URL"),
-      action: z.enum(['insert', 'update', 'delete']).describe("Operation type"),
-      table: z.string().describe("Table name"),
-      data: z.any().optional().describe("Data for insert/update"),
-      where: z.record(z.any()).optional().describe("Filter for update/delete")
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)")
     }
-  }, async ({ projectUrl, action, table, data, where = {} }) => {
-    console.log('🔵 [Mutate] Started with params:', { 
-      projectUrl, 
-      action, 
-      table, 
-      data: data ? JSON.stringify(data, null, 2) : 'none',
-      where: Object.keys(where).length > 0 ? where : 'none'
-    });
+  }, withRequestLog('refresh', async ({ projectUrl }) => {
+    log.info('🔵 [Refresh] Started with params:', { projectUrl });
+    
+    try {
+      const { projectId } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: false });
+      if (denied) {
+        return policyDenied('refresh', denied);
+      }
+      
+      const accessToken = config.profiles?.[projectId] ? undefined : managementToken(config);
+      const previousKey = accessToken ? projectKeyCache[keyCacheKey(projectId, accessToken)]?.keys.serviceRoleKey : undefined;
+      invalidateProject(projectId, accessToken);
+      const { serviceRoleKey } = await getKeysFor(projectId, config);
+      const rotated = previousKey !== undefined && previousKey !== serviceRoleKey;
+      
+      log.info(`✅ [Refresh] Keys refreshed for project: ${projectId}${rotated ? ' (key changed)' : ''}`);
+      
+      return respond(config, { refreshed: projectId, rotated });
+    } catch (error: any) {
+      log.error('❌ [Refresh] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('refresh', error);
+    }
+  }));
+
+  // Tool 9: Projects - Organizations and projects visible to the token
+  server.registerTool("projects", {
+    title: "Projects",
+    description: "List organizations and projects",
+    inputSchema: {}
+  }, withRequestLog('projects', async () => {
+    log.info('🔵 [Projects] Started');
+    
+    try {
+      // Always list fresh - this is also how callers pick up newly created projects
+      if (config.accessToken) {
+        delete projectListCache[config.accessToken];
+      }
+      const [organizations, projects] = config.accessToken
+        ? await Promise.all([
+            managementApi('/organizations', config.accessToken),
+            listProjects(config.accessToken)
+          ])
+        : [[], []];
+      
+      const visible = projects.filter((p: any) => !config.allowedProjects || config.allowedProjects.includes(p.id));
+      log.info(`✅ [Projects] Found ${organizations.length} organizations and ${visible.length} projects`);
+      
+      const orgNames: { [id: string]: string } = {};
+      organizations.forEach((o: any) => { orgNames[o.id] = o.name; });
+      
+      return respond(config, {
+        projects: visible.slice(0, MAX_ROWS).map((p: any) => ({
+          ref: p.id,
+          name: p.name,
+          org: orgNames[p.organization_id] || p.organization_id,
+          region: p.region,
+          status: p.status
+        })),
+        ...(config.profiles ? { profiles: Object.entries(config.profiles).map(([name, p]) => ({ name, url: p.url })) } : {}),
+        ...(config.defaultProject ? { defaultProject: config.defaultProject } : {})
+      }, { rowsKey: 'projects' });
+    } catch (error: any) {
+      log.error('❌ [Projects] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('projects', error);
+    }
+  }));
+
+  // Tool 10: History - Journaled mutations and undo
+  server.registerTool("history", {
+    title: "Mutation history",
+    description: "List journaled mutations and revert one",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Only list mutations for this project (URL, ref or name)"),
+      action: z.enum(['list', 'get', 'revert']).describe("Operation"),
+      table: z.string().optional().describe("Only list mutations for this table"),
+      id: z.string().optional().describe("Journal entry ID for get/revert"),
+      force: z.boolean().optional().describe("Revert even if rows changed since the mutation"),
+      limit: z.number().optional().describe("Maximum entries to list (default 20)")
+    }
+  }, withRequestLog('history', async ({ projectUrl, action, table, id, force = false, limit = 20 }) => {
+    log.info('🔵 [History] Started with params:', { projectUrl, action, table: table || 'none', id: id || 'none', force, limit });
     
     try {
-      // Extract project ID and get service role key
-      const projectId = extractProjectId(projectUrl);
-      const { serviceRoleKey } = await getProjectKeys(projectId, config.accessToken);
-      
-      console.log('🌐 [Mutate] Creating Supabase client for:', projectUrl);
-      console.log('🔓 [Mutate] Using service role key - bypassing RLS');
-      const client = createClient(projectUrl, serviceRoleKey, {
-        auth: { 
-          persistSession: false,
-          autoRefreshToken: false,
-          detectSessionInUrl: false
-        },
-        db: {
-          schema: 'public'
-        },
-        global: {
-          headers: {
-            'x-bypass-rls': 'true'  // Explicit RLS bypass with service role
+      const entries = await readJournal(config);
+      const revertedBy: { [id: string]: JournalEntry } = {};
+      entries.filter(e => e.action === 'revert' && e.reverts).forEach(e => { revertedBy[e.reverts!] = e; });
+      
+      // Journal entries hold row data, so they follow the same read policy as select
+      const readable = (e: JournalEntry) => !checkPolicy(config, e.project, { write: false, schema: e.schema, tables: [e.table] });
+      
+      if (action === 'list') {
+        const projectId = projectUrl ? (await resolveProject(projectUrl, config)).projectId : undefined;
+        const matching = entries
+          .filter(e => e.action !== 'revert' && (!projectId || e.project === projectId) && (!table || e.table === table) && readable(e))
+          .reverse()
+          .slice(0, Math.min(limit, MAX_ROWS));
+        
+        log.info(`✅ [History] Found ${matching.length} journaled mutations`);
+        
+        return respond(config, {
+          journal: journalPath(config),
+          mutations: matching.map(e => ({
+            id: e.id,
+            time: e.time,
+            project: e.project,
+            schema: e.schema,
+            table: e.table,
+            action: e.action,
+            as: e.as,
+            rows: e.rows ?? (e.before ?? e.after ?? []).length,
+            revertible: !!e.revertible && !revertedBy[e.id],
+            ...(e.note ? { note: e.note } : {}),
+            ...(revertedBy[e.id] ? { revertedAt: revertedBy[e.id].time } : {})
+          }))
+        }, { rowsKey: 'mutations' });
+      }
+      
+      if (!id) {
+        log.error(`❌ [History] ${action} missing id`);
+        throw new Error(`id required for ${action}`);
+      }
+      const entry = entries.find(e => e.id === id && e.action !== 'revert');
+      if (!entry || !readable(entry)) {
+        throw categorizedError('not_found', `No journaled mutation with id "${id}"`);
+      }
+      
+      if (action === 'get') {
+        return respond(config, {
+          ...entry,
+          ...(revertedBy[id] ? { revertedAt: revertedBy[id].time } : {})
+        });
+      }
+      
+      if (revertedBy[id]) {
+        throw categorizedError('conflict', `Mutation ${id} was already reverted at ${revertedBy[id].time}`);
+      }
+      if (!entry.revertible || !entry.primaryKey) {
+        throw new Error(`Mutation ${id} cannot be reverted: ${entry.note || 'no before-images recorded'}`);
+      }
+      
+      // Resolve the project, enforce policy, then get the pooled client
+      const { projectId, apiUrl } = await resolveProject(entry.project, config);
+      const denied = checkPolicy(config, projectId, { write: true, schema: entry.schema, tables: [entry.table] });
+      if (denied) {
+        return policyDenied('history', denied);
+      }
+      const client = await getProjectClient(apiUrl, projectId, config, entry.schema);
+      const primaryKey = entry.primaryKey;
+      
+      // Conflict check: the rows must still look the way the mutation left them
+      const expected = (entry.action === 'delete' ? entry.before : entry.after) || [];
+      log.info(`🔎 [History] Checking ${expected.length} rows of ${entry.schema}.${entry.table} for later changes`);
+      const current: { [key: string]: any } = {};
+      for (let i = 0; i < expected.length; i += JOURNAL_KEY_CHUNK) {
+        let query = client.from(entry.table).select('*');
+        query = applyFilters(query, compileFilters(primaryKeyFilter(primaryKey, expected.slice(i, i + JOURNAL_KEY_CHUNK))), 'History');
+        const result = await query;
+        if (result.error) {
+          throw explainSchemaError(result.error, entry.schema);
+        }
+        (result.data || []).forEach((row: any) => { current[primaryKeyOf(primaryKey, row)] = row; });
+      }
+      
+      const conflicts = expected.flatMap(row => {
+        const now = current[primaryKeyOf(primaryKey, row)];
+        const key = Object.fromEntries(primaryKey.map(column => [column, row[column]]));
+        if (entry.action === 'delete') {
+          return now ? [{ key, reason: 'row exists again' }] : [];
+        }
+        if (!now) {
+          return [{ key, reason: 'row no longer exists' }];
+        }
+        return JSON.stringify(now) !== JSON.stringify(row) ? [{ key, reason: 'row changed since the mutation' }] : [];
+      });
+      
+      if (conflicts.length > 0 && !force) {
+        log.warn(`⚠️ [History] ${conflicts.length} conflicting rows - not reverting ${id}`);
+        return respond(config, {
+          reverted: false,
+          conflicts: conflicts.slice(0, MAX_ROWS),
+          ...(conflicts.length > MAX_ROWS ? { truncated: true } : {}),
+          hint: 'Pass force: true to revert anyway'
+        });
+      }
+      
+      // insert is undone by deleting the rows, update/delete by writing the before-images back
+      let restored = 0;
+      if (entry.action === 'insert') {
+        log.info(`🗑️ [History] Deleting ${expected.length} inserted rows`);
+        for (let i = 0; i < expected.length; i += JOURNAL_KEY_CHUNK) {
+          let query = client.from(entry.table).delete({ count: 'exact' });
+          query = applyFilters(query, compileFilters(primaryKeyFilter(primaryKey, expected.slice(i, i + JOURNAL_KEY_CHUNK))), 'History');
+          const result = await query;
+          if (result.error) {
+            throw explainSchemaError(result.error, entry.schema);
+          }
+          restored += result.count ?? 0;
+        }
+      } else {
+        const images = entry.before || [];
+        log.info(`♻️ [History] Restoring ${images.length} rows`);
+        for (let i = 0; i < images.length; i += MUTATE_BATCH_SIZE) {
+          const result = await client.from(entry.table).upsert(images.slice(i, i + MUTATE_BATCH_SIZE), { count: 'exact', onConflict: primaryKey.join(',') });
+          if (result.error) {
+            throw explainSchemaError(result.error, entry.schema);
           }
+          restored += result.count ?? 0;
         }
+      }
+      
+      await appendJournal(config, {
+        id: randomUUID().slice(0, 12),
+        time: new Date().toISOString(),
+        project: projectId,
+        schema: entry.schema,
+        table: entry.table,
+        action: 'revert',
+        reverts: id,
+        rows: restored
       });
       
-      let result;
-      console.log(`🔀 [Mutate] Executing action: ${action} on table: ${table}`);
+      log.info(`✅ [History] Reverted ${entry.action} ${id}, rows: ${restored}`);
+      
+      return respond(config, {
+        reverted: true,
+        id,
+        action: entry.action,
+        rows: restored,
+        ...(conflicts.length > 0 ? { overwrittenConflicts: conflicts.length } : {})
+      });
+    } catch (error: any) {
+      log.error('❌ [History] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('history', error);
+    }
+  }));
+
+  // Tool 11: Migrations - Applied, local and pending schema migrations
+  server.registerTool("migrations", {
+    title: "Migrations",
+    description: "List, diff and apply database migrations",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum(['list', 'diff', 'apply']).describe("Operation"),
+      name: z.string().optional().describe("Migration name for apply - a pending local migration unless query is given"),
+      query: z.string().optional().describe("Migration SQL for apply"),
+      directory: z.string().optional().describe("Local migrations directory (default from config, else supabase/migrations)")
+    }
+  }, withRequestLog('migrations', async ({ projectUrl, action, name, query, directory = config.migrationsDir || 'supabase/migrations' }) => {
+    log.info('🔵 [Migrations] Started with params:', { projectUrl, action, name: name || 'none', query, directory });
+    
+    try {
+      const { projectId } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: action === 'apply', rawSql: action === 'apply' });
+      if (denied) {
+        return policyDenied('migrations', denied);
+      }
+      const accessToken = managementToken(config, projectId);
+      
+      log.info(`📋 [Migrations] Listing applied migrations for project: ${projectId}`);
+      const applied: any[] = await managementApi(`/projects/${projectId}/database/migrations`, accessToken) || [];
+      
+      // Local files are pending when neither their version nor their name was applied
+      // (migrations applied through the API get a new version)
+      const pendingMigrations = async () => {
+        const local = await readLocalMigrations(directory);
+        const appliedVersions = new Set(applied.map(m => m.version));
+        const appliedNames = new Set(applied.map(m => m.name));
+        return {
+          local,
+          pending: local.filter(m => !appliedVersions.has(m.version) && !appliedNames.has(m.name))
+        };
+      };
       
       switch (action) {
-        case 'insert':
-          if (!data) {
-            console.error('❌ [Mutate] Insert attempted without data');
-            throw new Error('Data required for insert');
-          }
-          console.log('📝 [Mutate] Inserting data:', JSON.stringify(data, null, 2));
-          result = await client.from(table).insert(data);
-          console.log('✅ [Mutate] Insert completed');
-          break;
+        case 'list':
+          log.info(`✅ [Migrations] Found ${applied.length} applied migrations`);
+          return respond(config, {
+            migrations: applied.map(m => ({ version: m.version, name: m.name }))
+          }, { rowsKey: 'migrations' });
           
-        case 'update':
-          if (!data) {
-            console.error('❌ [Mutate] Update attempted without data');
-            throw new Error('Data required for update');
+        case 'diff': {
+          log.info(`🔍 [Migrations] Comparing with local migrations in: ${directory}`);
+          const { local, pending } = await pendingMigrations();
+          const localVersions = new Set(local.map(m => m.version));
+          const localNames = new Set(local.map(m => m.name));
+          const remoteOnly = applied.filter(m => !localVersions.has(m.version) && !localNames.has(m.name));
+          
+          log.info(`✅ [Migrations] ${pending.length} pending, ${remoteOnly.length} applied but not in ${directory}`);
+          return respond(config, {
+            directory,
+            applied: applied.length,
+            pending: pending.map(m => ({ version: m.version, name: m.name, file: m.file })),
+            ...(remoteOnly.length > 0 ? { remoteOnly: remoteOnly.map(m => ({ version: m.version, name: m.name })) } : {})
+          }, { rowsKey: 'pending' });
+        }
+          
+        case 'apply': {
+          if (!config.allowSqlWrites) {
+            log.error('❌ [Migrations] Apply requested but allowSqlWrites is off');
+            throw categorizedError('permission', 'Applying migrations is disabled - set allowSqlWrites in the server config');
+          }
+          if (!name) {
+            log.error('❌ [Migrations] Apply missing name');
+            throw new Error('name required for apply');
           }
-          console.log('📝 [Mutate] Updating with data:', JSON.stringify(data, null, 2));
-          let updateQuery = client.from(table).update(data);
           
-          const updateFilterCount = Object.keys(where).length;
-          if (updateFilterCount > 0) {
-            console.log('🔍 [Mutate] Applying update filters:', where);
-            Object.entries(where).forEach(([key, value]) => {
-              console.log(`  🔍 [Mutate] Filter: ${key} = ${value}`);
-              updateQuery = updateQuery.eq(key, value);
-            });
-          } else {
-            console.warn('⚠️ [Mutate] Update without WHERE clause - will update ALL rows!');
+          let sql = query;
+          if (sql === undefined) {
+            const { pending } = await pendingMigrations();
+            const migration = pending.find(m => m.name === name || m.version === name || `${m.version}_${m.name}` === name);
+            if (!migration) {
+              throw categorizedError('not_found', `No pending migration "${name}" in ${directory} - run diff to see pending migrations`);
+            }
+            sql = await readFile(migration.file, 'utf8');
+            name = migration.name;
+          } else if (applied.some(m => m.name === name)) {
+            throw categorizedError('conflict', `Migration "${name}" is already applied`);
           }
           
-          result = await updateQuery;
-          console.log('✅ [Mutate] Update completed');
-          break;
+          log.info(`🛠️ [Migrations] Applying migration: ${name}`);
+          await managementApi(`/projects/${projectId}/database/migrations`, accessToken, {
+            method: 'POST',
+            body: { name, query: sql }
+          });
           
+          log.info(`✅ [Migrations] Applied migration: ${name}`);
+          return respond(config, { applied: name, project: projectId });
+        }
+      }
+    } catch (error: any) {
+      log.error('❌ [Migrations] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('migrations', error);
+    }
+  }));
+
+  // Tool 12: Branches - Development branches of a project
+  server.registerTool("branches", {
+    title: "Branches",
+    description: "Manage development branches",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Parent project URL, ref or name (default from config)"),
+      action: z.enum(['list', 'create', 'reset', 'delete', 'connectionUrl']).describe("Operation"),
+      branch: z.string().optional().describe("Branch ID, name or project ref (name of the new branch for create)"),
+      gitBranch: z.string().optional().describe("Git branch to link on create"),
+      persistent: z.boolean().optional().describe("Create a persistent branch"),
+      region: z.string().optional().describe("Region for create (default: the parent's)")
+    }
+  }, withRequestLog('branches', async ({ projectUrl, action, branch, gitBranch, persistent, region }) => {
+    log.info('🔵 [Branches] Started with params:', { projectUrl, action, branch: branch || 'none', gitBranch, persistent, region });
+    
+    try {
+      const { projectId } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: ['create', 'reset', 'delete'].includes(action) });
+      if (denied) {
+        return policyDenied('branches', denied);
+      }
+      const accessToken = managementToken(config, projectId);
+      
+      if (action === 'list') {
+        log.info(`📋 [Branches] Listing branches of project: ${projectId}`);
+        const branches: any[] = await managementApi(`/projects/${projectId}/branches`, accessToken) || [];
+        
+        log.info(`✅ [Branches] Found ${branches.length} branches`);
+        return respond(config, {
+          branches: branches.map(b => ({
+            id: b.id,
+            name: b.name,
+            ref: b.project_ref,
+            status: b.status,
+            ...(b.is_default ? { default: true } : {}),
+            ...(b.persistent ? { persistent: true } : {}),
+            ...(b.git_branch ? { gitBranch: b.git_branch } : {})
+          }))
+        }, { rowsKey: 'branches' });
+      }
+      
+      if (!branch) {
+        log.error(`❌ [Branches] ${action} missing branch`);
+        throw new Error(`branch required for ${action}`);
+      }
+      
+      if (action === 'create') {
+        log.info(`🌱 [Branches] Creating branch: ${branch}`);
+        const created = await managementApi(`/projects/${projectId}/branches`, accessToken, {
+          method: 'POST',
+          body: {
+            branch_name: branch,
+            ...(gitBranch ? { git_branch: gitBranch } : {}),
+            ...(persistent !== undefined ? { persistent } : {}),
+            ...(region ? { region } : {})
+          }
+        });
+        
+        log.info(`✅ [Branches] Created branch: ${branch}`);
+        return respond(config, { id: created?.id, name: created?.name, ref: created?.project_ref, status: created?.status });
+      }
+      
+      const found = await findBranch(projectId, accessToken, branch);
+      
+      switch (action) {
+        case 'reset':
         case 'delete':
-          console.log('🗑️ [Mutate] Deleting from table:', table);
-          let deleteQuery = client.from(table).delete();
-          
-          const deleteFilterCount = Object.keys(where).length;
-          if (deleteFilterCount > 0) {
-            console.log('🔍 [Mutate] Applying delete filters:', where);
-            Object.entries(where).forEach(([key, value]) => {
-              console.log(`  🔍 [Mutate] Filter: ${key} = ${value}`);
-              deleteQuery = deleteQuery.eq(key, value);
-            });
-          } else {
-            console.warn('⚠️ [Mutate] Delete without WHERE clause - will delete ALL rows!');
+          // Resetting or deleting the default branch would wipe production
+          if (found.is_default) {
+            log.error(`❌ [Branches] Refusing to ${action} the default branch`);
+            throw categorizedError('permission', `Refusing to ${action} the default (production) branch`);
           }
+          log.info(`${action === 'reset' ? '🔄' : '🗑️'} [Branches] ${action === 'reset' ? 'Resetting' : 'Deleting'} branch: ${found.name}`);
+          await managementApi(`/branches/${found.id}${action === 'reset' ? '/reset' : ''}`, accessToken, {
+            method: action === 'reset' ? 'POST' : 'DELETE'
+          });
           
-          result = await deleteQuery;
-          console.log('✅ [Mutate] Delete completed');
-          break;
+          log.info(`✅ [Branches] Branch ${action === 'reset' ? 'reset' : 'deleted'}: ${found.name}`);
+          return respond(config, { [action === 'reset' ? 'reset' : 'deleted']: found.name, id: found.id });
+          
+        case 'connectionUrl':
+          log.info(`🔗 [Branches] Getting connection details for branch: ${found.name}`);
+          const details = await managementApi(`/branches/${found.id}`, accessToken);
+          const user = encodeURIComponent(details.db_user || 'postgres');
+          const password = details.db_pass ? `:${encodeURIComponent(details.db_pass)}` : '';
+          
+          return respond(config, {
+            name: found.name,
+            ref: details.ref || found.project_ref,
+            status: details.status,
+            connectionUrl: `postgresql://${user}${password}@${details.db_host}:${details.db_port}/postgres`
+          });
+      }
+    } catch (error: any) {
+      log.error('❌ [Branches] Fatal error:', {
+        name: error?.name,
+        message: error?.message,
+        stack: error?.stack,
+        fullError: JSON.stringify(error, null, 2)
+      });
+      
+      return toolError('branches', error);
+    }
+  }));
+
+  // Tool 13: Functions - Edge Functions
+  server.registerTool("functions", {
+    title: "Edge Functions",
+    description: "List, inspect and invoke Edge Functions",
+    inputSchema: {
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum(['list', 'get', 'invoke']).describe("Operation"),
+      name: z.string().optional().describe("Function slug for get/invoke"),
+      path: z.string().optional().describe("Sub-path appended to the function URL, e.g. 'users/42?active=true'"),
+      method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional().describe("HTTP method for invoke (default POST)"),
+      headers: z.record(z.string()).optional().describe("Extra request headers"),
+      body: z.any().optional().describe("JSON request body"),
+      bodyBase64: z.string().optional().describe("Raw request body, base64 encoded (instead of body)"),
+      timeoutMs: z.number().optional().describe(`Invocation timeout (default ${FUNCTION_TIMEOUT_MS})`),
+      as: roleSchema.optional().describe("Invoke as service (default), anon or user:<id|email>")
+    }
+  }, withRequestLog('functions', async ({ projectUrl, action, name, path, method = 'POST', headers = {}, body, bodyBase64, timeoutMs = FUNCTION_TIMEOUT_MS, as = 'service' }) => {
+    log.info('🔵 [Functions] Started with params:', {
+      projectUrl,
+      action,
+      name: name || 'none',
+      path: path || 'none',
+      method,
+      hasBody: body !== undefined || bodyBase64 !== undefined,
+      timeoutMs,
+      as
+    });
+    
+    try {
+      // Function code can write anything whatever the method, and can reach any table (often with
+      // its own service key), so every invocation is a write and is refused when table rules apply
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: action === 'invoke', rawSql: action === 'invoke' });
+      if (denied) {
+        return policyDenied('functions', denied);
+      }
+      
+      if (action === 'list') {
+        log.info(`📋 [Functions] Listing Edge Functions of project: ${projectId}`);
+        const functions: any[] = await managementApi(`/projects/${projectId}/functions`, managementToken(config, projectId)) || [];
+        
+        log.info(`✅ [Functions] Found ${functions.length} functions`);
+        return respond(config, {
+          functions: functions.map(f => ({
+            name: f.slug,
+            status: f.status,
+            version: f.version,
+            verifyJwt: f.verify_jwt,
+            updatedAt: f.updated_at ? new Date(f.updated_at).toISOString() : undefined
+          }))
+        }, { rowsKey: 'functions' });
+      }
+      
+      if (!name) {
+        log.error(`❌ [Functions] ${action} missing function name`);
+        throw new Error(`Function name required for ${action}`);
+      }
+      
+      if (action === 'get') {
+        log.info(`🔍 [Functions] Getting function: ${name}`);
+        const details = await managementApi(`/projects/${projectId}/functions/${encodeURIComponent(name)}`, managementToken(config, projectId));
+        return respond(config, {
+          name: details.slug,
+          id: details.id,
+          status: details.status,
+          version: details.version,
+          verifyJwt: details.verify_jwt,
+          ...(details.entrypoint_path ? { entrypoint: details.entrypoint_path } : {}),
+          ...(details.import_map_path ? { importMap: details.import_map_path } : {}),
+          createdAt: details.created_at ? new Date(details.created_at).toISOString() : undefined,
+          updatedAt: details.updated_at ? new Date(details.updated_at).toISOString() : undefined
+        });
+      }
+      
+      if (body !== undefined && bodyBase64 !== undefined) {
+        throw new Error('Pass either body or bodyBase64, not both');
+      }
+      if (method === 'GET' && (body !== undefined || bodyBase64 !== undefined)) {
+        throw new Error('GET requests cannot have a body');
       }
       
-      if (result.error) {
-        console.error('❌ [Mutate] Operation error:', {
-          message: result.error.message,
-          details: result.error.details,
-          hint: result.error.hint,
-          code: result.error.code,
-          fullError: JSON.stringify(result.error, null, 2)
-        });
-        throw result.error;
+      const requestHeaders: { [header: string]: string } = {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(bodyBase64 !== undefined ? { 'Content-Type': 'application/octet-stream' } : {}),
+        ...headers,
+        ...await roleHeaders(apiUrl, projectId, config, as)
+      };
+      const url = `${apiUrl}/functions/v1/${encodeURIComponent(name)}${path ? `/${path.replace(/^\/+/, '')}` : ''}`;
+      
+      log.info(`⚡ [Functions] Invoking ${name} via ${method}${as === 'service' ? '' : ` as ${as}`}`);
+      const startedAt = Date.now();
+      // Never retried: function code may have side effects, and its status is the caller's answer
+      const response = await fetch(url, {
+        method,
+        headers: requestHeaders,
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+        ...(bodyBase64 !== undefined ? { body: Buffer.from(bodyBase64, 'base64') } : {}),
+        signal: AbortSignal.timeout(Math.max(1, Math.floor(timeoutMs)))
+      });
+      const durationMs = Date.now() - startedAt;
+      
+      // Text bodies are returned as text (parsed if JSON and complete), anything else as base64
+      const contentType = response.headers.get('content-type') || '';
+      const bytes = Buffer.from(await response.arrayBuffer());
+      const isText = !contentType || isTextMimeType(contentType);
+      const encoded = isText ? bytes.toString('utf8') : bytes.toString('base64');
+      const truncated = encoded.length > FUNCTION_MAX_BODY_CHARS;
+      let responseBody: unknown = truncated ? encoded.slice(0, FUNCTION_MAX_BODY_CHARS) : encoded;
+      if (!truncated && contentType.startsWith('application/json')) {
+        try {
+          responseBody = JSON.parse(encoded);
+        } catch {
+          // Keep the raw text
+        }
       }
       
-      const affectedCount = result.count || 0;
-      console.log(`✅ [Mutate] Operation successful, affected rows: ${affectedCount}`);
+      log.info(`✅ [Functions] ${name} responded ${response.status} in ${durationMs}ms (${bytes.length} bytes)`);
       
-      return { 
-        content: [{
-          type: "text",
-          text: JSON.stringify({ 
-            success: true, 
-            affected: affectedCount 
-          }, null, 2)
-        }]
-      };
+      return respond(config, {
+        status: response.status,
+        ok: response.ok,
+        durationMs,
+        headers: Object.fromEntries(response.headers.entries()),
+        ...(isText ? {} : { encoding: 'base64' }),
+        body: responseBody,
+        ...(truncated ? { truncated: true, size: bytes.length } : {})
+      });
     } catch (error: any) {
-      console.error('❌ [Mutate] Fatal error:', {
+      log.error('❌ [Functions] Fatal error:', {
         name: error?.name,
         message: error?.message,
         stack: error?.stack,
         fullError: JSON.stringify(error, null, 2)
       });
       
-      const errorMessage = error?.message || 'Unknown error';
-      const errorDetails = error?.details || '';
-      const errorHint = error?.hint || '';
-      
-      throw new Error(`Mutate failed: ${errorMessage}${errorDetails ? ` - Details: ${errorDetails}` : ''}${errorHint ? ` - Hint: ${errorHint}` : ''}`);
+      return toolError('functions', error);
     }
-  });
+  }));
 
-  // Tool 3: Storage - File operations
-  server.registerTool("storage", {
-    title: "Files",
-    description: "Manage storage files",
+  // Tool 14: Types - Generated TypeScript definitions
+  server.registerTool("types", {
+    title: "TypeScript types",
+    description: "Generate TypeScript types for schemas, or one table or function",
     inputSchema: {
-      projectUrl: z.string().describe("Supabase project URL"),
-      action: z.enum(['upload', 'download', 'delete', 'list']).describe("Operation"),
-      bucket: z.string().describe("Storage bucket"),
-      path: z.string().optional().describe("File path"),
-      data: z.string().optional().describe("File data (base64)")
-    }
-  }, async ({ projectUrl, action, bucket, path, data }) => {
-    console.log('🔵 [Storage] Started with params:', {
-      projectUrl,
-      action,
-      bucket,
-      path: path || 'root',
-      hasData: !!data,
-      dataLength: data ? data.length : 0
-    });
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      schemas: z.array(z.string()).optional().describe("Schemas to include (default from config, else public)"),
+      table: z.string().optional().describe("Only return the types of this table or view"),
+      fn: z.string().optional().describe("Only return the types of this function")
+    }
+  }, withRequestLog('types', async ({ projectUrl, schemas = [config.defaultSchema || 'public'], table, fn }) => {
+    log.info('🔵 [Types] Started with params:', { projectUrl, schemas, table: table || 'none', fn: fn || 'none' });
     
     try {
-      // Extract project ID and get service role key
-      const projectId = extractProjectId(projectUrl);
-      const { serviceRoleKey } = await getProjectKeys(projectId, config.accessToken);
-      
-      console.log('🌐 [Storage] Creating Supabase client for:', projectUrl);
-      console.log('🔓 [Storage] Using service role key - full storage access');
-      const client = createClient(projectUrl, serviceRoleKey, {
-        auth: { 
-          persistSession: false,
-          autoRefreshToken: false,
-          detectSessionInUrl: false
-        },
-        db: {
-          schema: 'public'
-        },
-        global: {
-          headers: {
-            'x-bypass-rls': 'true'  // Explicit RLS bypass with service role
-          }
+      // Whole schemas and function signatures can expose any table's columns, so only a table is checked on its own
+      const { projectId } = await resolveProject(projectUrl, config);
+      for (const schema of schemas) {
+        const denied = checkPolicy(config, projectId, { write: false, schema, tables: [table || '*'] });
+        if (denied) {
+          return policyDenied('types', denied);
         }
-      });
+      }
       
-      console.log(`🔀 [Storage] Executing action: ${action} on bucket: ${bucket}`);
+      if (table && fn) {
+        throw new Error('Pass either table or fn, not both');
+      }
+      if (schemas.length === 0) {
+        throw new Error('schemas must not be empty');
+      }
       
-      switch (action) {
-        case 'upload':
-          if (!path || !data) {
-            console.error('❌ [Storage] Upload missing required params:', { path, hasData: !!data });
-            throw new Error('Path and data required');
-          }
-          console.log(`📤 [Storage] Uploading file to: ${bucket}/${path}`);
-          console.log(`📊 [Storage] File size (base64): ${data.length} characters`);
-          
-          const uploadResult = await client.storage
-            .from(bucket)
-            .upload(path, Buffer.from(data, 'base64'));
-            
-          if (uploadResult.error) {
-            console.error('❌ [Storage] Upload error:', {
-              message: uploadResult.error.message,
-              statusCode: uploadResult.error.statusCode,
-              fullError: JSON.stringify(uploadResult.error, null, 2)
-            });
-            throw uploadResult.error;
-          }
-          
-          console.log('✅ [Storage] Upload successful:', path);
-          return { 
-            content: [{
-              type: "text",
-              text: `Uploaded: ${path}`
-            }]
-          };
-          
-        case 'download':
-          if (!path) {
-            console.error('❌ [Storage] Download missing path');
-            throw new Error('Path required');
-          }
-          console.log(`📥 [Storage] Downloading file from: ${bucket}/${path}`);
-          
-          const { data: file, error: downloadError } = await client.storage
-            .from(bucket)
-            .download(path);
-            
-          if (downloadError) {
-            console.error('❌ [Storage] Download error:', {
-              message: downloadError.message,
-              statusCode: downloadError.statusCode,
-              fullError: JSON.stringify(downloadError, null, 2)
-            });
-            throw downloadError;
-          }
-          
-          const fileText = await file?.text();
-          console.log(`✅ [Storage] Download successful, file size: ${fileText?.length || 0} characters`);
-          
-          return { 
-            content: [{
-              type: "text",
-              text: fileText || ''
-            }]
-          };
-          
-        case 'delete':
-          if (!path) {
-            console.error('❌ [Storage] Delete missing path');
-            throw new Error('Path required');
-          }
-          console.log(`🗑️ [Storage] Deleting file: ${bucket}/${path}`);
-          
-          const { error: deleteError } = await client.storage
-            .from(bucket)
-            .remove([path]);
-            
-          if (deleteError) {
-            console.error('❌ [Storage] Delete error:', {
-              message: deleteError.message,
-              statusCode: deleteError.statusCode,
-              fullError: JSON.stringify(deleteError, null, 2)
-            });
-            throw deleteError;
-          }
-          
-          console.log('✅ [Storage] Delete successful:', path);
-          return { 
-            content: [{
-              type: "text",
-              text: `Deleted: ${path}`
-            }]
-          };
-          
-        case 'list':
-          const listPath = path || '';
-          console.log(`📂 [Storage] Listing files in: ${bucket}/${listPath || 'root'}`);
-          
-          const { data: files, error: listError } = await client.storage
-            .from(bucket)
-            .list(listPath);
-            
-          if (listError) {
-            console.error('❌ [Storage] List error:', {
-              message: listError.message,
-              statusCode: listError.statusCode,
-              fullError: JSON.stringify(listError, null, 2)
-            });
-            throw listError;
-          }
-          
-          const fileCount = files?.length || 0;
-          const truncatedFiles = files?.slice(0, 100) || [];
-          console.log(`✅ [Storage] List successful, found ${fileCount} files`);
-          if (fileCount > 100) {
-            console.log(`📊 [Storage] Returning first 100 of ${fileCount} files`);
+      const types = await getGeneratedTypes(projectId, config, schemas);
+      if (!table && !fn) {
+        log.info(`✅ [Types] Generated ${types.length} chars of types`);
+        return respond(config, types);
+      }
+      
+      // The first listed schema that has the table/view/function wins
+      const name = (table || fn)!;
+      const kinds: TypeKind[] = table ? ['Tables', 'Views'] : ['Functions'];
+      for (const schema of schemas) {
+        for (const kind of kinds) {
+          const slice = typeSlice(types, schema, kind, name);
+          if (slice) {
+            log.info(`✅ [Types] Found ${schema}.${kind}.${name}`);
+            return respond(config, `// Database["${schema}"]["${kind}"]["${name}"]\n${slice}`);
           }
-          
-          return { 
-            content: [{
-              type: "text",
-              text: JSON.stringify(truncatedFiles, null, 2)
-            }]
-          };
+        }
       }
+      
+      throw categorizedError('not_found', `No ${table ? 'table or view' : 'function'} "${name}" in the types for ${schemas.join(', ')}`);
     } catch (error: any) {
-      console.error('❌ [Storage] Fatal error:', {
+      log.error('❌ [Types] Fatal error:', {
         name: error?.name,
         message: error?.message,
-        statusCode: error?.statusCode,
         stack: error?.stack,
         fullError: JSON.stringify(error, null, 2)
       });
       
-      const errorMessage = error?.message || 'Unknown error';
-      const errorStatusCode = error?.statusCode || '';
-      
-      throw new Error(`Storage failed: ${errorMessage}${errorStatusCode ? ` (Status: ${errorStatusCode})` : ''}`);
+      return toolError('types', error);
     }
-  });
+  }));
 
-  // Tool 4: Auth - User management  
-  server.registerTool("auth", {
-    title: "Users",
-    description: "Manage users",
+  // Tool 15: Bulk - Export tables to files and import files into tables
+  server.registerTool("bulk", {
+    title: "Bulk import/export",
+    description: "Export a table to CSV/NDJSON or import CSV/NDJSON/JSON into it",
     inputSchema: {
-      projectUrl: z.string().describe("Supabase project URL"),
-      action: z.enum(['list', 'create', 'delete']).describe("Operation"),
-      email: z.string().optional().describe("User email"),
-      password: z.string().optional().describe("User password"),
-      id: z.string().optional().describe("User ID")
+      projectUrl: z.string().optional().describe("Project URL, ref or name (default from config)"),
+      action: z.enum(['export', 'import']).describe("Operation"),
+      table: z.string().describe("Table name"),
+      schema: z.string().optional().describe("Database schema (default from config, else public)"),
+      format: bulkFormatSchema.optional().describe("csv, ndjson or json (default from the file extension, else csv; json is import only)"),
+      bucket: z.string().optional().describe("Storage bucket to export to or import from"),
+      path: z.string().optional().describe("File path in the bucket"),
+      file: z.string().optional().describe("Local file path, relative to dataDir"),
+      overwrite: z.boolean().optional().describe("Export: replace an existing file"),
+      where: z.record(z.any()).optional().describe("Export: filter (same operators as select)"),
+      columns: z.array(z.string()).optional().describe("Export: columns to write (default all)"),
+      orderBy: orderBySchema.optional().describe("Export: row order (default primary key)"),
+      data: z.union([z.string(), z.array(z.record(z.any()))]).optional().describe("Import: inline CSV/NDJSON/JSON text or an array of rows"),
+      columnMap: z.record(z.string().nullable()).optional().describe("Import: source column -> table column, null to skip it"),
+      coerce: z.record(coercionSchema).optional().describe("Import: table column -> text, integer, number, boolean, json or timestamp"),
+      emptyAsNull: z.boolean().optional().describe("Import: empty CSV cells become null (default true)"),
+      mode: z.enum(['insert', 'upsert']).optional().describe("Import: insert (default) or upsert"),
+      onConflict: z.string().optional().describe("Import: upsert conflict columns"),
+      ignoreDuplicates: z.boolean().optional().describe("Import: upsert skips conflicting rows"),
+      batchSize: z.number().optional().describe(`Import: rows per request (default ${MUTATE_BATCH_SIZE})`),
+      dryRun: z.boolean().optional().describe("Import: parse, map and coerce without writing"),
+      as: roleSchema.optional().describe("Run as service (default), anon or user:<id|email>")
     }
-  }, async ({ projectUrl, action, email, password, id }) => {
-    console.log('🔵 [Auth] Started with params:', {
+  }, withRequestLog('bulk', async ({ projectUrl, action, table, schema = config.defaultSchema || 'public', format, bucket, path, file, overwrite = false, where = {}, columns, orderBy = [], data, columnMap = {}, coerce = {}, emptyAsNull = true, mode = 'insert', onConflict, ignoreDuplicates, batchSize = MUTATE_BATCH_SIZE, dryRun = false, as = 'service' }) => {
+    log.info('🔵 [Bulk] Started with params:', {
       projectUrl,
       action,
-      email: email || 'none',
-      hasPassword: !!password,
-      id: id || 'none'
+      table,
+      schema,
+      format: format || 'auto',
+      bucket: bucket || 'none',
+      path: path || 'none',
+      file: file || 'none',
+      where,
+      data: data ?? 'none',
+      mode,
+      batchSize,
+      dryRun,
+      as
     });
     
     try {
-      // Extract project ID and get service role key
-      const projectId = extractProjectId(projectUrl);
-      const { serviceRoleKey } = await getProjectKeys(projectId, config.accessToken);
-      
-      console.log('🌐 [Auth] Creating Supabase client for:', projectUrl);
-      console.log('🔓 [Auth] Using service role key - full admin access');
-      const client = createClient(projectUrl, serviceRoleKey, {
-        auth: { 
-          persistSession: false,
-          autoRefreshToken: false,
-          detectSessionInUrl: false
-        },
-        db: {
-          schema: 'public'
-        },
-        global: {
-          headers: {
-            'x-bypass-rls': 'true'  // Explicit RLS bypass with service role
-          }
-        }
-      });
+      // Validate arguments before any request goes out
+      const filters = compileFilters(where);
+      const sources = [bucket, file, action === 'import' ? data : undefined].filter(source => source !== undefined).length;
+      if (sources !== 1) {
+        throw new Error(action === 'export' ? 'Pass either bucket and path, or file' : 'Pass one of bucket and path, file or data');
+      }
+      if (bucket !== undefined && !path) {
+        throw new Error('path required with bucket');
+      }
+      if (batchSize < 1) {
+        throw new Error('batchSize must be at least 1');
+      }
+      assertNoEmbeds(columns || [], 'column');
       
-      console.log(`🔀 [Auth] Executing action: ${action}`);
+      // Resolve the project, enforce policy, then get the pooled client.
+      // Exports to storage also write, so they need write access on top of reading the table
+      const { projectId, apiUrl } = await resolveProject(projectUrl, config);
+      const denied = checkPolicy(config, projectId, { write: action === 'import' && !dryRun, schema, tables: [table] })
+        || (action === 'export' && bucket !== undefined ? checkPolicy(config, projectId, { write: true }) : null);
+      if (denied) {
+        return policyDenied('bulk', denied);
+      }
+      const client = await getRoleClient(apiUrl, projectId, config, schema, as);
+      log.info(as === 'service' ? '🔓 [Bulk] Using service role key - bypassing RLS' : `🔒 [Bulk] Running as ${as} - RLS applies`);
       
-      switch (action) {
-        case 'list':
-          console.log('📋 [Auth] Listing users...');
-          const { data: listData, error: listError } = await client.auth.admin.listUsers();
-          
-          if (listError) {
-            console.error('❌ [Auth] List users error:', {
-              message: listError.message,
-              status: listError.status,
-              fullError: JSON.stringify(listError, null, 2)
-            });
-            throw listError;
+      if (action === 'export') {
+        const exportFormat = format || formatFromPath(path || file || '') || 'csv';
+        if (exportFormat === 'json') {
+          throw new Error('Export writes csv or ndjson');
+        }
+        await validateColumns(config, projectId, schema, table, [
+          ...(columns || []).map(baseColumn),
+          ...whereColumns(where),
+          ...orderBy.map(o => o.column)
+        ]);
+        
+        // Keyset paging stays fast on large tables but needs a unique, non-null order - only the
+        // primary key is known to be one. orderBy pages by offset, with the primary key breaking ties
+        // so no row is skipped or repeated between pages
+        const primaryKey = await getPrimaryKey(apiUrl, projectId, config, schema, table).catch(() => [] as string[]);
+        const order: OrderBy[] = [
+          ...orderBy,
+          ...primaryKey.filter(column => !orderBy.some(o => o.column === column)).map(column => ({ column }))
+        ];
+        const selectColumns = columns && columns.length > 0 ? columns : ['*'];
+        const keyset = orderBy.length === 0 && primaryKey.length > 0 && (selectColumns.includes('*') || primaryKey.every(column => selectColumns.includes(column)));
+        
+        // Local exports stream to disk; storage exports are collected and uploaded at the end
+        let stream: WriteStream | undefined;
+        let destination = `${bucket}/${path}`;
+        if (file !== undefined) {
+          destination = dataFilePath(config, file);
+          await mkdir(dirname(destination), { recursive: true });
+          stream = createWriteStream(destination, { flags: overwrite ? 'w' : 'wx' });
+          await once(stream, 'open');
+        }
+        const chunks: Buffer[] = [];
+        let bytes = 0;
+        const write = async (text: string) => {
+          bytes += Buffer.byteLength(text);
+          if (stream) {
+            if (!stream.write(text)) {
+              await once(stream, 'drain');
+            }
+            return;
           }
-          
-          const users = listData?.users || [];
-          const userCount = users.length;
-          console.log(`✅ [Auth] Found ${userCount} users`);
-          
-          // Return minimal user info
-          const userList = users.slice(0, 100).map(u => ({
-            id: u.id,
-            email: u.email,
-            created: u.created_at
-          }));
-          
-          if (userCount > 100) {
-            console.log(`📊 [Auth] Returning first 100 of ${userCount} users`);
+          if (bytes > BULK_MAX_BYTES) {
+            throw new Error(`Export is larger than ${BULK_MAX_BYTES / 1024 / 1024} MB - export to a local file instead`);
           }
-          
-          return { 
-            content: [{
-              type: "text",
-              text: JSON.stringify(userList, null, 2)
-            }]
-          };
-          
-        case 'create':
-          if (!email || !password) {
-            console.error('❌ [Auth] Create user missing required params:', { 
-              hasEmail: !!email, 
-              hasPassword: !!password 
-            });
-            throw new Error('Email and password required');
+          chunks.push(Buffer.from(text));
+        };
+        
+        log.info(`📤 [Bulk] Exporting ${schema}.${table} as ${exportFormat} to ${destination} (${keyset ? 'keyset' : 'offset'} paging)`);
+        let exported = 0;
+        let pages = 0;
+        let header: string[] | undefined = columns && columns.length > 0 && !columns.includes('*') ? columns : undefined;
+        let last: any;
+        try {
+          if (exportFormat === 'csv' && header) {
+            await write(csvLine(header) + '\n');
           }
-          
-          console.log(`👤 [Auth] Creating user with email: ${email}`);
-          const { data: newUser, error: createError } = await client.auth.admin.createUser({
-            email,
-            password,
-            email_confirm: true
-          });
-          
-          if (createError) {
-            console.error('❌ [Auth] Create user error:', {
-              message: createError.message,
-              status: createError.status,
-              code: createError.code,
-              fullError: JSON.stringify(createError, null, 2)
+          while (true) {
+            let query = client.from(table).select(selectColumns.join(','));
+            query = applyFilters(query, keyset && last
+              ? [...filters, ...compileFilters(buildKeysetFilter(order, order.map(o => last[o.column])))]
+              : filters, 'Bulk');
+            order.forEach(o => {
+              query = query.order(o.column, {
+                ascending: o.direction !== 'desc',
+                ...(o.nulls ? { nullsFirst: o.nulls === 'first' } : {})
+              });
             });
-            throw createError;
+            query = keyset ? query.limit(EXPORT_PAGE_SIZE) : query.range(exported, exported + EXPORT_PAGE_SIZE - 1);
+            
+            const { data: page, error } = await query;
+            if (error) {
+              log.error('❌ [Bulk] Export query error:', {
+                message: error.message,
+                details: error.details,
+                hint: error.hint,
+                code: error.code,
+                fullError: JSON.stringify(error, null, 2)
+              });
+              throw explainSchemaError(error, schema);
+            }
+            
+            const rows = (page || []) as unknown as Record<string, unknown>[];
+            pages++;
+            if (exportFormat === 'csv' && !header && rows.length > 0) {
+              header = Object.keys(rows[0]);
+              await write(csvLine(header) + '\n');
+            }
+            for (const row of rows) {
+              await write(exportFormat === 'csv' ? csvLine(header!.map(c => cellText(row, c))) + '\n' : JSON.stringify(row) + '\n');
+            }
+            exported += rows.length;
+            last = rows[rows.length - 1];
+            log.info(`📄 [Bulk] Page ${pages}: ${rows.length} rows (${exported} total)`);
+            
+            if (rows.length < EXPORT_PAGE_SIZE) {
+              break;
+            }
           }
           
-          const newUserId = newUser.user?.id;
-          console.log(`✅ [Auth] User created successfully with ID: ${newUserId}`);
-          
-          return { 
-            content: [{
-              type: "text",
-              text: `Created user: ${newUserId}`
-            }]
-          };
-          
-        case 'delete':
-          if (!id) {
-            console.error('❌ [Auth] Delete user missing ID');
-            throw new Error('User ID required');
+          if (stream) {
+            stream.end();
+            await once(stream, 'finish');
+          } else {
+            const { error: uploadError } = await client.storage
+              .from(bucket!)
+              .upload(path!, Buffer.concat(chunks), {
+                contentType: exportFormat === 'csv' ? 'text/csv' : 'application/x-ndjson',
+                upsert: overwrite
+              });
+            if (uploadError) {
+              log.error('❌ [Bulk] Upload error:', {
+                message: uploadError.message,
+                fullError: JSON.stringify(uploadError, null, 2)
+              });
+              throw uploadError;
+            }
           }
-          
-          console.log(`🗑️ [Auth] Deleting user with ID: ${id}`);
-          const { error: deleteError } = await client.auth.admin.deleteUser(id);
-          
-          if (deleteError) {
-            console.error('❌ [Auth] Delete user error:', {
-              message: deleteError.message,
-              status: deleteError.status,
-              code: deleteError.code,
-              fullError: JSON.stringify(deleteError, null, 2)
+        } catch (error) {
+          // Don't leave a partial file behind - it would also block a retry without overwrite
+          if (stream) {
+            stream.destroy();
+            await unlink(destination).catch(() => undefined);
+          }
+          throw error;
+        }
+        
+        log.info(`✅ [Bulk] Exported ${exported} rows (${bytes} bytes) to ${destination}`);
+        return respond(config, { exported, format: exportFormat, destination, bytes, pages });
+      }
+      
+      // Import: read the source, parse it into numbered rows, then map and coerce each row
+      let parsed: ReturnType<typeof parseImport>;
+      if (Array.isArray(data)) {
+        parsed = { rows: data.map((values, i) => ({ row: i + 1, values })), failures: [] };
+      } else {
+        let text: string;
+        if (bucket !== undefined) {
+          log.info(`📥 [Bulk] Reading ${bucket}/${path}`);
+          await assertStoredSize(client.storage.from(bucket), path!, BULK_MAX_BYTES, 'split the file before importing it');
+          const { data: blob, error: downloadError } = await client.storage.from(bucket).download(path!);
+          if (downloadError) {
+            throw downloadError;
+          }
+          if (blob.size > BULK_MAX_BYTES) {
+            throw new Error(`Import file is larger than ${BULK_MAX_BYTES / 1024 / 1024} MB`);
+          }
+          text = Buffer.from(await blob.arrayBuffer()).toString('utf8');
+        } else if (file !== undefined) {
+          const localPath = dataFilePath(config, file);
+          log.info(`📥 [Bulk] Reading ${localPath}`);
+          if ((await stat(localPath)).size > BULK_MAX_BYTES) {
+            throw new Error(`Import file is larger than ${BULK_MAX_BYTES / 1024 / 1024} MB`);
+          }
+          text = await readFile(localPath, 'utf8');
+        } else {
+          text = data!;
+        }
+        
+        const source = path || file;
+        const importFormat = format
+          || (source ? formatFromPath(source) : undefined)
+          || (/^\s*\[/.test(text) ? 'json' : /^\s*\{/.test(text) ? 'ndjson' : 'csv');
+        log.info(`🧾 [Bulk] Parsing ${importFormat} (${text.length} chars)`);
+        parsed = parseImport(text, importFormat, emptyAsNull);
+      }
+      
+      const failures: ImportFailure[] = [...parsed.failures];
+      const prepared: { row: number, values: Record<string, unknown> }[] = [];
+      for (const { row, values } of parsed.rows) {
+        const mapped: Record<string, unknown> = {};
+        for (const [column, value] of Object.entries(values)) {
+          const target = columnMap[column] === undefined ? column : columnMap[column];
+          if (target !== null) {
+            mapped[target] = value;
+          }
+        }
+        try {
+          for (const [column, type] of Object.entries(coerce)) {
+            if (column in mapped) {
+              try {
+                mapped[column] = coerceValue(mapped[column], type);
+              } catch (error: any) {
+                throw new Error(`${column}: ${error?.message}`);
+              }
+            }
+          }
+          prepared.push({ row, values: mapped });
+        } catch (error: any) {
+          failures.push({ row, error: 'validation', message: error?.message });
+        }
+      }
+      
+      await validateColumns(config, projectId, schema, table, [
+        ...new Set(prepared.flatMap(p => Object.keys(p.values))),
+        ...(onConflict ? onConflict.split(',').map(c => c.trim()) : [])
+      ]);
+      
+      const read = parsed.rows.length + parsed.failures.length;
+      log.info(`📊 [Bulk] ${read} rows read, ${prepared.length} ready, ${failures.length} failed before writing`);
+      
+      if (dryRun) {
+        return respond(config, {
+          dryRun: true,
+          read,
+          valid: prepared.length,
+          failed: failures.length,
+          preview: prepared.slice(0, 10).map(p => p.values),
+          ...(failures.length > 0 ? { failures: failures.slice(0, MAX_ROWS) } : {})
+        }, { rowsKey: 'preview' });
+      }
+      
+      // Imports are journaled like mutate: written rows are captured for the service role only
+      const journaling = config.journal !== false;
+      const capturing = journaling && as === 'service';
+      const primaryKey = capturing
+        ? await getPrimaryKey(apiUrl, projectId, config, schema, table).catch(error => {
+            log.warn(`⚠️ [Journal] Could not read primary key of ${schema}.${table}:`, error);
+            return [] as string[];
+          })
+        : [];
+      const written: any[] = [];
+      
+      const writeRows = (rows: Record<string, unknown>[]) => {
+        const query = mode === 'insert'
+          ? client.from(table).insert(rows, { count: 'exact' })
+          : client.from(table).upsert(rows, {
+              count: 'exact',
+              ...(onConflict ? { onConflict } : {}),
+              ...(ignoreDuplicates ? { ignoreDuplicates } : {})
             });
-            throw deleteError;
+        return capturing ? query.select() : query;
+      };
+      const capture = (data: any[] | null) => {
+        if (capturing && written.length <= JOURNAL_MAX_ROWS) {
+          written.push(...(data || []).slice(0, JOURNAL_MAX_ROWS + 1 - written.length));
+        }
+      };
+      
+      let imported = 0;
+      let fatal: any = null;
+      const batches = Math.ceil(prepared.length / batchSize);
+      for (let i = 0; i < prepared.length; i += batchSize) {
+        const batch = prepared.slice(i, i + batchSize);
+        const batchNumber = i / batchSize + 1;
+        const result = await writeRows(batch.map(p => p.values));
+        if (!result.error) {
+          imported += result.count ?? batch.length;
+          capture(result.data);
+          log.info(`✅ [Bulk] Batch ${batchNumber}/${batches} imported`);
+          continue;
+        }
+        
+        // A batch fails as a whole. Row-level errors (bad values, duplicates) are narrowed down
+        // by retrying the batch's rows one by one; schema errors and anything else stop the
+        // import, keeping what earlier batches already wrote
+        const explained = explainSchemaError(result.error, schema);
+        const category = classifyError(explained);
+        if ((category !== 'validation' && category !== 'conflict') || BULK_SCHEMA_ERROR_CODES.has(explained.code)) {
+          log.error(`❌ [Bulk] Batch ${batchNumber}/${batches} failed - stopping after ${imported} imported rows`);
+          fatal = explained;
+          break;
+        }
+        log.warn(`⚠️ [Bulk] Batch ${batchNumber}/${batches} failed - retrying its ${batch.length} rows one by one`);
+        const probeCodes: string[] = [];
+        let probed = 0;
+        for (const { row, values } of batch) {
+          const single = await writeRows([values]);
+          probed++;
+          if (single.error) {
+            const rowError = explainSchemaError(single.error, schema);
+            const rowCategory = classifyError(rowError);
+            failures.push({
+              row,
+              error: rowCategory,
+              message: rowError.message,
+              ...(rowError.code ? { code: rowError.code } : {}),
+              ...(rowError.details ? { details: rowError.details } : {})
+            });
+            // The same validation error on every probed row (e.g. a required column the mapping
+            // left out) would fail the whole file one request at a time - stop instead
+            if (probed <= BULK_PROBE_ROWS && rowCategory === 'validation') {
+              probeCodes.push(rowError.code || rowError.message);
+            }
+            if (probed === BULK_PROBE_ROWS && probeCodes.length === BULK_PROBE_ROWS && new Set(probeCodes).size === 1 && batch.length > BULK_PROBE_ROWS) {
+              log.error(`❌ [Bulk] First ${BULK_PROBE_ROWS} rows of batch ${batchNumber}/${batches} failed the same way - stopping after ${imported} imported rows`);
+              fatal = rowError;
+              break;
+            }
+          } else {
+            imported += single.count ?? 1;
+            capture(single.data);
           }
-          
-          console.log(`✅ [Auth] User deleted successfully: ${id}`);
-          
-          return { 
-            content: [{
-              type: "text",
-              text: `Deleted user: ${id}`
-            }]
-          };
+        }
+        if (fatal) {
+          break;
+        }
+      }
+      
+      let journalId: string | undefined;
+      if (journaling && imported > 0) {
+        const note = !capturing ? `rows are not captured when running as ${as}`
+          : mode === 'upsert' ? 'upsert does not capture before-images'
+          : primaryKey.length === 0 ? 'table has no primary key'
+          : written.length > JOURNAL_MAX_ROWS ? `more than ${JOURNAL_MAX_ROWS} rows affected`
+          : undefined;
+        journalId = await recordMutation(config, {
+          project: projectId,
+          schema,
+          table,
+          action: mode,
+          as,
+          primaryKey,
+          ...(capturing ? { after: written.slice(0, JOURNAL_MAX_ROWS) } : {}),
+          rows: imported,
+          revertible: !note,
+          ...(note ? { note } : {})
+        });
+      }
+      
+      failures.sort((a, b) => a.row - b.row);
+      const summary = {
+        read,
+        imported,
+        failed: failures.length,
+        ...(failures.length > 0 ? { failures: failures.slice(0, MAX_ROWS) } : {}),
+        ...(failures.length > MAX_ROWS ? { truncated: true } : {}),
+        ...(journalId ? { journalId } : {})
+      };
+      
+      if (fatal) {
+        return toolError('bulk', fatal, summary);
       }
+      
+      log.info(`✅ [Bulk] Imported ${imported} of ${read} rows into ${schema}.${table}, ${failures.length} failed`);
+      return respond(config, { success: failures.length === 0, ...summary }, { rowsKey: 'failures' });
     } catch (error: any) {
-      console.error('❌ [Auth] Fatal error:', {
+      log.error('❌ [Bulk] Fatal error:', {
         name: error?.name,
         message: error?.message,
-        status: error?.status,
-        code: error?.code,
         stack: error?.stack,
         fullError: JSON.stringify(error, null, 2)
       });
       
-      const errorMessage = error?.message || 'Unknown error';
-      const errorStatus = error?.status || '';
-      const errorCode = error?.code || '';
-      
-      throw new Error(`Auth failed: ${errorMessage}${errorStatus ? ` (Status: ${errorStatus})` : ''}${errorCode ? ` [Code: ${errorCode}]` : ''}`);
+      return toolError('bulk', error);
     }
-  });
+  }));
 
-  console.log('✅ [Server] All tools registered successfully');
-  console.log('🎉 [Server] Supabase MCP Lite ready to serve!');
+  log.info('✅ [Server] All tools registered successfully');
+  log.info('🎉 [Server] Supabase MCP Lite ready to serve!');
   
   return server.server;
 }
\ No newline at end of file